@@ -0,0 +1,205 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: cli.spec.ts
+    Description: Command-Line Tool Test Specification.
+    Written by: Nikita Petko
+*/
+
+import cli from '../cli';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let directory: string;
+let stdout: string;
+let stderr: string;
+
+const output = {
+  stdout: (text: string) => (stdout += text),
+  stderr: (text: string) => (stderr += text),
+};
+
+const file = (name: string) => path.join(directory, name);
+
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'node-environment-'));
+
+  fs.writeFileSync(
+    file('schema.js'),
+    `module.exports.schema = {
+      port: { name: 'CLI_PORT', type: 'number', default: 8080, constraints: { max: 65535 } },
+      url: { name: 'CLI_DATABASE_URL', required: true },
+      token: { name: 'CLI_TOKEN', secret: true },
+    };
+    module.exports.other = { name: { name: 'CLI_NAME', default: 'app' } };`,
+  );
+  fs.writeFileSync(
+    file('environment.js'),
+    'module.exports = { getDeclaredVariables: () => ({ port: { name: \'CLI_PORT\', default: 1 } }) };',
+  );
+  fs.writeFileSync(file('.env'), 'CLI_DATABASE_URL=postgres://localhost\nCLI_TOKEN=hunter2\nCLI_PORT=3000\n');
+  fs.writeFileSync(file('.env.invalid'), 'CLI_PORT=99999\n');
+  fs.writeFileSync(
+    file('rules.js'),
+    `module.exports.schema = { token: { name: 'CLI_TOKEN' } };
+    module.exports.rules = [
+      { variables: ['CLI_TOKEN'], check: (get) => (get('CLI_TOKEN') ? [] : [{ variable: 'CLI_TOKEN', message: 'is missing' }]) },
+    ];`,
+  );
+  fs.writeFileSync(file('.env.other'), 'CLI_DATABASE_URL=postgres://remote\nCLI_TOKEN=hunter3\nCLI_NEW=1\n');
+});
+
+beforeEach(() => {
+  stdout = '';
+  stderr = '';
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('Command-Line Tool', () => {
+  describe('run', () => {
+    it('should print the usage', async () => {
+      expect(await cli.run(['--help'], output)).toEqual(0);
+      expect(stdout).toContain('Usage: node-environment <command> [options]');
+
+      expect(await cli.run([], output)).toEqual(2);
+    });
+
+    it('should reject unknown commands and options', async () => {
+      expect(await cli.run(['deploy'], output)).toEqual(2);
+      expect(stderr).toEqual('node-environment: Unknown command \'deploy\'\n');
+
+      expect(await cli.run(['check', '--verbose'], output)).toEqual(2);
+      expect(await cli.run(['print', '--format', 'yaml'], output)).toEqual(2);
+    });
+  });
+
+  describe('check', () => {
+    it('should validate the environment and the .env files against the schema', async () => {
+      expect(await cli.run(['check', '--schema', file('schema.js'), '--env-file', file('.env')], output)).toEqual(0);
+      expect(stdout).toEqual('OK: 3 variable(s) are valid.\n');
+    });
+
+    it('should exit with 1 and list every issue', async () => {
+      const code = await cli.run(['check', '--schema', file('schema.js'), '--env-file', file('.env.invalid')], output);
+
+      expect(code).toEqual(1);
+      expect(stderr).toContain('CLI_PORT: must be at most 65535');
+      expect(stderr).toContain('CLI_DATABASE_URL: is required but not set');
+    });
+
+    it('should let the process environment take precedence over the .env files', async () => {
+      process.env.CLI_PORT = '80';
+
+      expect(
+        await cli.run(['check', '--schema', file('schema.js'), '--env-file', file('.env.invalid')], output),
+      ).toEqual(1);
+      expect(stderr).not.toContain('CLI_PORT');
+
+      delete process.env.CLI_PORT;
+    });
+
+    it('should load the schema from the given export or an environment class', async () => {
+      expect(await cli.run(['check', '--schema', file('schema.js'), '--export', 'other'], output)).toEqual(0);
+      expect(await cli.run(['check', '--schema', file('environment.js')], output)).toEqual(0);
+
+      expect(await cli.run(['check', '--schema', file('schema.js'), '--export', 'missing'], output)).toEqual(2);
+      expect(stderr).toContain('does not export \'missing\'');
+    });
+
+    it('should check the rules exported by the schema module', async () => {
+      expect(await cli.run(['check', '--schema', file('rules.js'), '--env-file', file('.env')], output)).toEqual(0);
+      expect(await cli.run(['check', '--schema', file('rules.js')], output)).toEqual(1);
+      expect(stderr).toContain('CLI_TOKEN: is missing');
+    });
+
+    it('should require a schema and existing files', async () => {
+      expect(await cli.run(['check'], output)).toEqual(2);
+      expect(
+        await cli.run(['check', '--schema', file('schema.js'), '--env-file', file('.env.missing')], output),
+      ).toEqual(2);
+    });
+  });
+
+  describe('print', () => {
+    it('should print the resolved configuration as a table with secrets redacted', async () => {
+      expect(await cli.run(['print', '--schema', file('schema.js'), '--env-file', file('.env')], output)).toEqual(0);
+      expect(stdout).toEqual(
+        [
+          'VARIABLE          VALUE                 SOURCE  TYPE',
+          'CLI_DATABASE_URL  postgres://localhost  file    string',
+          'CLI_PORT          3000                  file    number',
+          'CLI_TOKEN         [REDACTED]            file    string',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should print the variables of the .env files as JSON without a schema', async () => {
+      expect(await cli.run(['print', '--env-file', file('.env.other'), '--format', 'json'], output)).toEqual(0);
+      expect(JSON.parse(stdout)).toEqual({
+        CLI_DATABASE_URL: { value: 'postgres://remote', source: 'file', type: 'string', secret: false },
+        CLI_NEW: { value: '1', source: 'file', type: 'string', secret: false },
+        CLI_TOKEN: { value: '[REDACTED]', source: 'file', type: 'string', secret: true },
+      });
+    });
+  });
+
+  describe('diff', () => {
+    it('should compare two .env files by key', async () => {
+      expect(await cli.run(['diff', file('.env'), file('.env.other')], output)).toEqual(1);
+      expect(stdout).toEqual(
+        [
+          '- CLI_PORT=3000',
+          '+ CLI_NEW=1',
+          '~ CLI_DATABASE_URL: postgres://localhost -> postgres://remote',
+          '~ CLI_TOKEN: [REDACTED] -> [REDACTED]',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should print the differences as JSON', async () => {
+      expect(await cli.run(['diff', file('.env.invalid'), file('.env'), '--format', 'json'], output)).toEqual(1);
+      expect(JSON.parse(stdout)).toEqual({
+        added: { CLI_DATABASE_URL: 'postgres://localhost', CLI_TOKEN: '[REDACTED]' },
+        removed: {},
+        changed: { CLI_PORT: { from: '99999', to: '3000' } },
+      });
+    });
+
+    it('should compare a file to the current environment', async () => {
+      process.env.CLI_PORT = '99999';
+
+      expect(await cli.run(['diff', file('.env.invalid'), '-'], output)).toEqual(1);
+      expect(stdout).not.toContain('CLI_PORT');
+
+      delete process.env.CLI_PORT;
+    });
+
+    it('should exit with 0 if the files are the same', async () => {
+      expect(await cli.run(['diff', file('.env'), file('.env')], output)).toEqual(0);
+      expect(stdout).toEqual('No differences.\n');
+
+      expect(await cli.run(['diff', file('.env')], output)).toEqual(2);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: config_file_parser.spec.ts
+    Description: Config File Parser Test Specification.
+    Written by: Nikita Petko
+*/
+
+import configFileParser from '../environment/config_file_parser';
+import ConfigFileParseError from '../environment/errors/config_file_parse_error';
+
+describe('Config File Parser', () => {
+  describe('formatOf', () => {
+    it('should determine the format from the extension', () => {
+      expect(configFileParser.formatOf('config.json')).toEqual('json');
+      expect(configFileParser.formatOf('/etc/app/config.YML')).toEqual('yaml');
+      expect(configFileParser.formatOf('config.yaml')).toEqual('yaml');
+      expect(configFileParser.formatOf('config.toml')).toEqual('toml');
+      expect(configFileParser.formatOf('config.ini')).toBeUndefined();
+    });
+  });
+
+  describe('json', () => {
+    it('should parse objects', () => {
+      expect(configFileParser.parse('{ "port": 8080, "hosts": ["a", "b"] }', 'json')).toEqual({
+        port: 8080,
+        hosts: ['a', 'b'],
+      });
+    });
+
+    it('should reject invalid files and roots that are not objects', () => {
+      expect(() => configFileParser.parse('{ "port": }', 'json', 'config.json')).toThrow(ConfigFileParseError);
+      expect(() => configFileParser.parse('[1, 2]', 'json', 'config.json')).toThrow(
+        'config.json:1: The root of the file must be an object',
+      );
+    });
+  });
+
+  describe('yaml', () => {
+    it('should parse mappings, sequences and scalars', () => {
+      const content = [
+        '# The server',
+        'server:',
+        '  host: "0.0.0.0" # all interfaces',
+        '  port: 8080',
+        '  tags: [a, \'b c\', "d"]',
+        '  limits: { rps: 100, burst: ~ }',
+        'replicas:',
+        '- host: r1',
+        '  port: 5433',
+        '- host: r2',
+        'urls:',
+        '  - http://example.com/#anchor',
+        '  - it\'s',
+        'empty:',
+      ].join('\n');
+
+      expect(configFileParser.parse(content, 'yaml')).toEqual({
+        server: {
+          host: '0.0.0.0',
+          port: '8080',
+          tags: ['a', 'b c', 'd'],
+          limits: { rps: '100', burst: null },
+        },
+        replicas: [{ host: 'r1', port: '5433' }, { host: 'r2' }],
+        urls: ['http://example.com/#anchor', 'it\'s'],
+        empty: null,
+      });
+    });
+
+    it('should parse block scalars', () => {
+      const content = 'cert: |\n  line 1\n  line 2\n\nfolded: >-\n  a\n  b\n\n  c\nnext: 1';
+
+      expect(configFileParser.parse(content, 'yaml')).toEqual({
+        cert: 'line 1\nline 2\n',
+        folded: 'a b\nc',
+        next: '1',
+      });
+    });
+
+    it('should parse an empty file as an empty object', () => {
+      expect(configFileParser.parse('# nothing here\n', 'yaml')).toEqual({});
+    });
+
+    it('should report the line of an error', () => {
+      expect(() => configFileParser.parse('a: 1\n  b: 2', 'yaml', 'config.yaml')).toThrow(
+        'config.yaml:2: Unexpected indentation',
+      );
+      expect(() => configFileParser.parse('a: 1\na: 2', 'yaml', 'config.yaml')).toThrow(
+        'config.yaml:2: Duplicate key \'a\'',
+      );
+      expect(() => configFileParser.parse('a: [1, 2', 'yaml', 'config.yaml')).toThrow(ConfigFileParseError);
+    });
+
+    it('should reject keys that would change the prototype of a mapping', () => {
+      expect(() => configFileParser.parse('__proto__:\n  a: 1\nb: 2', 'yaml', 'config.yaml')).toThrow(
+        'config.yaml:1: Key \'__proto__\' is not allowed',
+      );
+      expect(() => configFileParser.parse('a: 1\nb: { constructor: 2 }', 'yaml', 'config.yaml')).toThrow(
+        'config.yaml:2: Key \'constructor\' is not allowed',
+      );
+      expect(({} as Record<string, unknown>).a).toBeUndefined();
+    });
+  });
+
+  describe('toml', () => {
+    it('should parse tables, keys and values', () => {
+      const content = [
+        '# The server',
+        'title = "App \\"one\\"" # comment',
+        '',
+        '[database]',
+        'host = \'localhost\'',
+        'port = 5_432',
+        'ports = [',
+        '  8000,',
+        '  8001, # trailing comma',
+        ']',
+        'pool = { min = 1, max.value = 10 }',
+        'created = 1979-05-27 07:32:00Z',
+        '',
+        '[[servers]]',
+        'name = "a"',
+        '',
+        '[[servers]]',
+        'name = "b"',
+        '',
+        '[a."b c"]',
+        'text = """',
+        'multi \\',
+        '   line"""',
+        'raw = \'\'\'C:\\path\'\'\'',
+      ].join('\n');
+
+      expect(configFileParser.parse(content, 'toml')).toEqual({
+        title: 'App "one"',
+        database: {
+          host: 'localhost',
+          port: '5432',
+          ports: ['8000', '8001'],
+          pool: { min: '1', max: { value: '10' } },
+          created: '1979-05-27 07:32:00Z',
+        },
+        servers: [{ name: 'a' }, { name: 'b' }],
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        a: { 'b c': { text: 'multi line', raw: 'C:\\path' } },
+      });
+    });
+
+    it('should report the line of an error', () => {
+      expect(() => configFileParser.parse('a = 1\nb = ', 'toml', 'config.toml')).toThrow(
+        'config.toml:2: Expected a value',
+      );
+      expect(() => configFileParser.parse('a = 1\na = 2', 'toml', 'config.toml')).toThrow(
+        'config.toml:2: Duplicate key \'a\'',
+      );
+      expect(() => configFileParser.parse('[a]\nb = 1\n[a]\nc = 2', 'toml', 'config.toml')).toThrow(
+        'config.toml:3: Duplicate table \'a\'',
+      );
+      expect(configFileParser.parse('[a.b]\nc = 1\n[a]\nd = 2', 'toml')).toEqual({ a: { b: { c: '1' }, d: '2' } });
+      expect(() => configFileParser.parse('a = yes', 'toml', 'config.toml')).toThrow('Invalid value \'yes\'');
+      expect(() => configFileParser.parse('a = "unterminated', 'toml', 'config.toml')).toThrow(ConfigFileParseError);
+    });
+
+    it('should reject keys that would change the prototype of a table', () => {
+      expect(() => configFileParser.parse('a = 1\n[__proto__]\npolluted = "yes"', 'toml', 'config.toml')).toThrow(
+        'config.toml:2: Key \'__proto__\' is not allowed',
+      );
+      expect(() => configFileParser.parse('a.constructor.prototype = 1', 'toml', 'config.toml')).toThrow(
+        'config.toml:1: Key \'constructor\' is not allowed',
+      );
+      expect(() => configFileParser.parse('a = { "__proto__" = 1 }', 'toml')).toThrow(ConfigFileParseError);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('should not mistake inherited properties for tables', () => {
+      expect(configFileParser.parse('[toString]\na = 1\n[[valueOf]]\nb = 2', 'toml')).toEqual({
+        toString: { a: '1' },
+        valueOf: [{ b: '2' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: dotenv_parser.spec.ts
+    Description: DotEnv Parser Test Specification.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable quotes */
+
+import dotEnvParser from '../environment/dotenv_parser';
+import DotEnvParseError from '../environment/errors/dotenv_parse_error';
+
+const parse = (content: string) =>
+  Object.fromEntries([...dotEnvParser.parse(content).values()].map((entry) => [entry.key, entry.value]));
+
+describe('DotEnv Parser', () => {
+  describe('parse', () => {
+    it('should parse simple declarations', () => {
+      expect(parse('FOO=bar\nBAZ = qux\n\nEMPTY=')).toEqual({ FOO: 'bar', BAZ: 'qux', EMPTY: '' });
+    });
+
+    it('should ignore comments', () => {
+      expect(parse('# a comment\nFOO=bar # inline\nBAZ=qux#not-a-comment')).toEqual({
+        FOO: 'bar',
+        BAZ: 'qux#not-a-comment',
+      });
+    });
+
+    it('should strip the export prefix', () => {
+      expect(parse('export FOO=bar')).toEqual({ FOO: 'bar' });
+    });
+
+    it('should unescape double quoted values', () => {
+      expect(parse('FOO="a\\nb\\t\\"c\\" # not a comment" # comment')).toEqual({ FOO: 'a\nb\t"c" # not a comment' });
+    });
+
+    it('should take single quoted and backtick quoted values literally', () => {
+      expect(parse("FOO='a\\nb'\nBAR=`it's`")).toEqual({ FOO: 'a\\nb', BAR: "it's" });
+    });
+
+    it('should parse multi-line values', () => {
+      const entries = dotEnvParser.parse('KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1');
+
+      expect(entries.get('KEY')).toEqual({ key: 'KEY', value: '-----BEGIN-----\nabc\n-----END-----', line: 1, quote: '"' });
+      expect(entries.get('NEXT')?.line).toEqual(4);
+    });
+
+    it('should let later declarations replace earlier ones', () => {
+      expect(parse('FOO=1\nFOO=2')).toEqual({ FOO: '2' });
+    });
+
+    it('should throw on invalid declarations', () => {
+      expect(() => dotEnvParser.parse('FOO=1\nnot valid', '.env')).toThrow(DotEnvParseError);
+      expect(() => dotEnvParser.parse('FOO=1\nnot valid', '.env')).toThrow('.env:2: Invalid declaration');
+    });
+
+    it('should throw on unterminated quotes', () => {
+      expect(() => dotEnvParser.parse('FOO="abc\nBAR=1')).toThrow("Unterminated \" quoted value for 'FOO'");
+    });
+
+    it('should throw on characters after a quoted value', () => {
+      expect(() => dotEnvParser.parse('FOO="abc" def')).toThrow(DotEnvParseError);
+    });
+  });
+
+  describe('replaceValues', () => {
+    it('should keep the comments and layout of the file', () => {
+      const content = '# Ports\r\n  export PORT = 80 # http\r\nHOST=localhost\r\n\r\nMULTI="a\r\nb" # two lines\r\n';
+      const replaced = dotEnvParser.replaceValues(content, (entry) =>
+        entry.key === 'HOST' ? undefined : entry.value.toUpperCase() + '!',
+      );
+
+      expect(replaced).toEqual(
+        '# Ports\r\n  export PORT = 80! # http\r\nHOST=localhost\r\n\r\nMULTI="A\\nB!" # two lines\r\n',
+      );
+    });
+
+    it('should quote the values so they parse back to themselves', () => {
+      const values = ['plain', ' padded ', 'a # b', 'multi\nline', 'say "hi"', "it's", 'back\\slash', ''];
+      const content = values.map((_, index) => `V${index}=x\nS${index}='x'`).join('\n');
+      const replaced = dotEnvParser.replaceValues(content, (entry) => values[Number(entry.key.substring(1))]);
+
+      expect([...dotEnvParser.parse(replaced).values()].map((entry) => entry.value)).toEqual(
+        values.flatMap((value) => [value, value]),
+      );
+      expect(replaced).toContain("S0='plain'");
+      expect(replaced).toContain('S5="it\'s"');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: env_crypto.spec.ts
+    Description: Environment Encryption Test Specification.
+    Written by: Nikita Petko
+*/
+
+import envCrypto from '../environment/env_crypto';
+import dotEnvParser from '../environment/dotenv_parser';
+import DecryptionError from '../environment/errors/decryption_error';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'node-environment-crypto-'));
+
+const writeFile = (name: string, content: string) => {
+  const fileName = path.join(directory, name);
+
+  fs.writeFileSync(fileName, content);
+
+  return fileName;
+};
+
+const readValues = (fileName: string) =>
+  Object.fromEntries(
+    [...dotEnvParser.parse(fs.readFileSync(fileName, 'utf8')).values()].map((entry) => [entry.key, entry.value]),
+  );
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('Environment Encryption', () => {
+  const key = envCrypto.generateKey();
+
+  describe('encrypt', () => {
+    it('should encrypt values that only decrypt with the same key', () => {
+      const encrypted = envCrypto.encrypt('hunter2', key);
+
+      expect(encrypted).toMatch(/^enc:v1:/);
+      expect(envCrypto.isEncrypted(encrypted)).toEqual(true);
+      expect(envCrypto.encrypt('hunter2', key)).not.toEqual(encrypted);
+      expect(envCrypto.decrypt(encrypted, key)).toEqual('hunter2');
+      expect(envCrypto.decrypt(encrypted, Buffer.from(key, 'base64').toString('hex'))).toEqual('hunter2');
+      expect(() => envCrypto.decrypt(encrypted, envCrypto.generateKey())).toThrow(
+        'The key is wrong or the encrypted value was modified',
+      );
+    });
+
+    it('should reject invalid keys and values', () => {
+      expect(() => envCrypto.encrypt('value', 'too short')).toThrow(TypeError);
+      expect(() => envCrypto.encrypt('value', Buffer.alloc(16))).toThrow('The encryption key must be 32 bytes');
+      expect(() => envCrypto.decrypt('plain', key)).toThrow('The value is not encrypted');
+      expect(() => envCrypto.decrypt('enc:v1:AAAA', key)).toThrow('The encrypted value is truncated');
+    });
+  });
+
+  describe('files', () => {
+    it('should encrypt and decrypt the values of a file in place', () => {
+      const fileName = writeFile('.env.values', '# Database\nDB_HOST=localhost\nDB_PASS=\'p@ss $word\' # literal\n');
+
+      envCrypto.encryptFile(fileName, key, { variables: ['DB_PASS'] });
+
+      const encrypted = fs.readFileSync(fileName, 'utf8');
+
+      expect(encrypted).toMatch(/^# Database\nDB_HOST=localhost\nDB_PASS='enc:v1:[^']+' # literal\n$/);
+
+      envCrypto.encryptFile(fileName, key);
+
+      expect(readValues(fileName).DB_PASS).toEqual(encrypted.match(/'(enc:v1:[^']+)'/)[1]);
+      expect(envCrypto.decrypt(readValues(fileName).DB_HOST, key)).toEqual('localhost');
+
+      envCrypto.decryptFile(fileName, key);
+
+      expect(fs.readFileSync(fileName, 'utf8')).toEqual(
+        '# Database\nDB_HOST=localhost\nDB_PASS=\'p@ss $word\' # literal\n',
+      );
+    });
+
+    it('should encrypt a file as a whole', () => {
+      const fileName = writeFile('.env.whole', 'API_TOKEN=t0k3n\n');
+      const output = path.join(directory, '.env.whole.enc');
+
+      envCrypto.encryptFile(fileName, key, { whole: true, output });
+
+      const encrypted = fs.readFileSync(output, 'utf8');
+
+      expect(envCrypto.isEncryptedFile(encrypted)).toEqual(true);
+      expect(envCrypto.decrypt(encrypted.trim(), key)).toEqual('API_TOKEN=t0k3n\n');
+
+      envCrypto.decryptFile(output, key);
+
+      expect(fs.readFileSync(output, 'utf8')).toEqual('API_TOKEN=t0k3n\n');
+    });
+
+    it('should rotate the key of a file in place', () => {
+      const newKey = envCrypto.generateKey();
+      const values = writeFile('.env.rotate', `PLAIN=1\nSECRET=${envCrypto.encrypt('s3cr3t', key)}\n`);
+      const whole = writeFile(
+        '.env.rotate.whole',
+        envCrypto.encrypt(`SECRET=${envCrypto.encrypt('s3cr3t', key)}`, key),
+      );
+
+      envCrypto.rotateFile(values, key, newKey);
+      envCrypto.rotateFile(whole, key, newKey);
+
+      expect(readValues(values).PLAIN).toEqual('1');
+      expect(envCrypto.decrypt(readValues(values).SECRET, newKey)).toEqual('s3cr3t');
+
+      const inner = envCrypto.decrypt(fs.readFileSync(whole, 'utf8').trim(), newKey);
+
+      expect(envCrypto.decrypt(inner.substring('SECRET='.length), newKey)).toEqual('s3cr3t');
+    });
+
+    it('should not write anything if a value cannot be decrypted', () => {
+      const content = `SECRET=${envCrypto.encrypt('s3cr3t', key)}\n`;
+      const fileName = writeFile('.env.wrong', content);
+      const wrongKey = envCrypto.generateKey();
+
+      expect(() => envCrypto.rotateFile(fileName, wrongKey, key)).toThrow(DecryptionError);
+      expect(() => envCrypto.decryptFile(fileName, wrongKey)).toThrow('Failed to decrypt \'SECRET\'');
+      expect(fs.readFileSync(fileName, 'utf8')).toEqual(content);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: platform_detector.spec.ts
+    Description: Platform Detector Test Specification.
+    Written by: Nikita Petko
+*/
+
+import platformDetector from '../environment/platform_detector';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Platform Detector', () => {
+  describe('detectCI', () => {
+    it('should detect GitHub Actions with its metadata', () => {
+      expect(
+        platformDetector.detectCI({
+          GITHUB_ACTIONS: 'true',
+          GITHUB_RUN_ID: '42',
+          GITHUB_SERVER_URL: 'https://github.com',
+          GITHUB_REPOSITORY: 'mfdlabs/node-environment',
+          GITHUB_REF_NAME: '12/merge',
+          GITHUB_HEAD_REF: 'feature',
+          GITHUB_SHA: 'abc123',
+          GITHUB_EVENT_NAME: 'pull_request',
+        }),
+      ).toEqual({
+        name: 'github-actions',
+        buildId: '42',
+        buildUrl: 'https://github.com/mfdlabs/node-environment/actions/runs/42',
+        branch: 'feature',
+        commit: 'abc123',
+        pullRequest: true,
+      });
+    });
+
+    it('should fall back to the next variable when one is empty', () => {
+      expect(
+        platformDetector.detectCI({ GITHUB_ACTIONS: 'true', GITHUB_HEAD_REF: '', GITHUB_REF_NAME: 'main' }),
+      ).toEqual({ name: 'github-actions', branch: 'main', pullRequest: false });
+      expect(
+        platformDetector.detectCI({
+          GITLAB_CI: 'true',
+          CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: '',
+          CI_COMMIT_REF_NAME: 'dev',
+        }),
+      ).toEqual({ name: 'gitlab', branch: 'dev', pullRequest: false });
+    });
+
+    it('should detect the other providers', () => {
+      expect(platformDetector.detectCI({ JENKINS_URL: 'http://ci', BUILD_ID: '7', CHANGE_ID: '3' })).toEqual({
+        name: 'jenkins',
+        buildId: '7',
+        pullRequest: true,
+      });
+      expect(platformDetector.detectCI({ CIRCLECI: 'true', CIRCLE_SHA1: 'def' })?.name).toEqual('circleci');
+      expect(platformDetector.detectCI({ BUILDKITE: 'true', BUILDKITE_PULL_REQUEST: 'false' })).toEqual({
+        name: 'buildkite',
+        pullRequest: false,
+      });
+      expect(platformDetector.detectCI({ TF_BUILD: 'True' })?.name).toEqual('azure-pipelines');
+      expect(platformDetector.detectCI({ CODEBUILD_BUILD_ID: 'build:1' })?.name).toEqual('aws-codebuild');
+    });
+
+    it('should return undefined outside of a known provider', () => {
+      expect(platformDetector.detectCI({ CI: 'true' })).toBeUndefined();
+      expect(platformDetector.detectCI({ JENKINS_URL: 'http://ci' })).toBeUndefined();
+    });
+  });
+
+  describe('isCI', () => {
+    it('should check for a known provider or the CI variable', () => {
+      expect(platformDetector.isCI({ DRONE: 'true' })).toBe(true);
+      expect(platformDetector.isCI({ CI: 'true' })).toBe(true);
+      expect(platformDetector.isCI({ CI: '1' })).toBe(true);
+      expect(platformDetector.isCI({ CI: 'false' })).toBe(false);
+      expect(platformDetector.isCI({ CI: '' })).toBe(false);
+      expect(platformDetector.isCI({})).toBe(false);
+    });
+  });
+
+  describe('detectPlatform', () => {
+    it('should detect AWS Lambda with its metadata', () => {
+      expect(
+        platformDetector.detectPlatform({
+          env: {
+            AWS_LAMBDA_FUNCTION_NAME: 'api',
+            AWS_LAMBDA_FUNCTION_VERSION: '$LATEST',
+            AWS_REGION: 'eu-west-1',
+          },
+        }),
+      ).toEqual({ name: 'aws-lambda', region: 'eu-west-1', service: 'api', version: '$LATEST' });
+    });
+
+    it('should tell Cloud Functions and Cloud Run apart', () => {
+      expect(platformDetector.detectPlatform({ env: { K_SERVICE: 'api', K_REVISION: 'api-00001' } })).toEqual({
+        name: 'gcp-cloud-run',
+        service: 'api',
+        version: 'api-00001',
+      });
+      expect(platformDetector.detectPlatform({ env: { K_SERVICE: 'fn', FUNCTION_TARGET: 'handler' } })?.name).toEqual(
+        'gcp-cloud-functions',
+      );
+    });
+
+    it('should tell Azure Functions and App Service apart', () => {
+      expect(
+        platformDetector.detectPlatform({ env: { WEBSITE_SITE_NAME: 'app', FUNCTIONS_WORKER_RUNTIME: 'node' } })?.name,
+      ).toEqual('azure-functions');
+      expect(platformDetector.detectPlatform({ env: { WEBSITE_SITE_NAME: 'app' } })?.name).toEqual('azure-app-service');
+    });
+
+    it('should detect the platforms as a service', () => {
+      expect(platformDetector.detectPlatform({ env: { DYNO: 'web.1' } })).toEqual({
+        name: 'heroku',
+        instanceId: 'web.1',
+      });
+      expect(platformDetector.detectPlatform({ env: { FLY_APP_NAME: 'app', FLY_REGION: 'ams' } })).toEqual({
+        name: 'fly',
+        region: 'ams',
+        service: 'app',
+      });
+      expect(
+        platformDetector.detectPlatform({ env: { ECS_CONTAINER_METADATA_URI_V4: 'http://169.254.170.2/v4' } }),
+      ).toEqual({
+        name: 'aws-ecs',
+      });
+    });
+
+    it('should detect virtual machines from the DMI files', () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'node-environment-platform-'));
+
+      fs.mkdirSync(path.join(root, 'sys/class/dmi/id'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'sys/class/dmi/id/product_name'), 'Google Compute Engine\n');
+
+      expect(platformDetector.detectPlatform({ env: {}, root })).toEqual({ name: 'gcp-compute-engine' });
+
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should return undefined on an unknown platform', () => {
+      expect(
+        platformDetector.detectPlatform({ env: {}, root: path.join(os.tmpdir(), 'does-not-exist') }),
+      ).toBeUndefined();
+    });
+  });
+});
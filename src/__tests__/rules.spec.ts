@@ -0,0 +1,119 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: rules.spec.ts
+    Description: Environment Rules Test Specification.
+    Written by: Nikita Petko
+*/
+
+import Rules, { IRule } from '../environment/rules';
+
+const check = (rule: IRule, values: Record<string, unknown>) => rule.check((name) => values[name]);
+
+describe('Environment Rules', () => {
+  describe('requires', () => {
+    it('should require the variables when another variable is set', () => {
+      const rule = Rules.requires(['TLS_KEY', 'TLS_CA'], 'TLS_CERT');
+
+      expect(rule.variables).toEqual(['TLS_KEY', 'TLS_CA', 'TLS_CERT']);
+      expect(check(rule, {})).toEqual([]);
+      expect(check(rule, { TLS_CERT: 'cert.pem', TLS_KEY: 'key.pem' })).toEqual([
+        { variable: 'TLS_CA', message: 'is required when TLS_CERT is set' },
+      ]);
+    });
+
+    it('should require the variables when other variables have the given values', () => {
+      const rule = Rules.requires('SMTP_HOST', { EMAIL_ENABLED: true, EMAIL_MODE: 'smtp' });
+
+      expect(check(rule, { EMAIL_ENABLED: false, EMAIL_MODE: 'smtp' })).toEqual([]);
+      expect(check(rule, { EMAIL_ENABLED: true, EMAIL_MODE: 'smtp', SMTP_HOST: 'mail' })).toEqual([]);
+      expect(check(rule, { EMAIL_ENABLED: true, EMAIL_MODE: 'smtp', SMTP_HOST: '' })).toEqual([
+        { variable: 'SMTP_HOST', message: 'is required when EMAIL_ENABLED is true and EMAIL_MODE is smtp' },
+      ]);
+    });
+
+    it('should convert the values read as strings to the type of the condition', () => {
+      const rule = Rules.requires('SMTP_HOST', { EMAIL_ENABLED: true, SMTP_PORT: 25 });
+
+      expect(check(rule, { EMAIL_ENABLED: 'yes', SMTP_PORT: '25' })).toEqual([
+        { variable: 'SMTP_HOST', message: 'is required when EMAIL_ENABLED is true and SMTP_PORT is 25' },
+      ]);
+      expect(check(rule, { EMAIL_ENABLED: 'off', SMTP_PORT: '25' })).toEqual([]);
+      expect(check(rule, { EMAIL_ENABLED: 'maybe', SMTP_PORT: '25' })).toEqual([]);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('should allow at most one of the variables to be set', () => {
+      const rule = Rules.conflicts('API_KEY', 'API_KEY_FILE', 'API_TOKEN');
+
+      expect(check(rule, {})).toEqual([]);
+      expect(check(rule, { API_KEY_FILE: '/run/secrets/api_key' })).toEqual([]);
+      expect(check(rule, { API_KEY: 'key', API_TOKEN: 'token' })).toEqual([
+        { variable: 'API_KEY, API_TOKEN', message: 'cannot be set together, unset all but one of them' },
+      ]);
+    });
+  });
+
+  describe('oneOf', () => {
+    it('should require exactly one of the variables to be set', () => {
+      const rule = Rules.oneOf('DATABASE_URL', 'DATABASE_HOST');
+
+      expect(check(rule, { DATABASE_HOST: 'localhost' })).toEqual([]);
+      expect(check(rule, {})).toEqual([
+        { variable: 'DATABASE_URL, DATABASE_HOST', message: 'exactly one must be set, but none is set' },
+      ]);
+      expect(check(rule, { DATABASE_URL: 'postgres://', DATABASE_HOST: 'localhost' })).toEqual([
+        {
+          variable: 'DATABASE_URL, DATABASE_HOST',
+          message: 'exactly one must be set, but DATABASE_URL and DATABASE_HOST are set',
+        },
+      ]);
+    });
+  });
+
+  describe('allOf', () => {
+    it('should require the variables to be set together', () => {
+      const rule = Rules.allOf('TLS_CERT', 'TLS_KEY', 'TLS_CA');
+
+      expect(check(rule, {})).toEqual([]);
+      expect(check(rule, { TLS_CERT: 'cert.pem', TLS_KEY: 'key.pem', TLS_CA: 'ca.pem' })).toEqual([]);
+      expect(check(rule, { TLS_CERT: 'cert.pem' })).toEqual([
+        { variable: 'TLS_CERT, TLS_KEY, TLS_CA', message: 'must be set together, but TLS_KEY and TLS_CA are not set' },
+      ]);
+    });
+  });
+
+  describe('custom', () => {
+    it('should check the values with the predicate', () => {
+      const rule = Rules.custom(
+        ['CACHE_TTL', 'CACHE_MAX_TTL'],
+        ({ CACHE_TTL, CACHE_MAX_TTL }) => CACHE_TTL < CACHE_MAX_TTL || 'CACHE_TTL must be less than CACHE_MAX_TTL',
+      );
+
+      expect(check(rule, { CACHE_TTL: 60, CACHE_MAX_TTL: 3600 })).toEqual([]);
+      expect(check(rule, { CACHE_TTL: 7200, CACHE_MAX_TTL: 3600 })).toEqual([
+        { variable: 'CACHE_TTL, CACHE_MAX_TTL', message: 'CACHE_TTL must be less than CACHE_MAX_TTL' },
+      ]);
+      const invalid = Rules.custom(['A', 'B'], () => false);
+      const described = Rules.custom(['A'], () => false, 'A is invalid');
+
+      expect(check(invalid, {})).toEqual([{ variable: 'A, B', message: 'failed validation' }]);
+      expect(check(described, {})).toEqual([{ variable: 'A', message: 'A is invalid' }]);
+    });
+  });
+});
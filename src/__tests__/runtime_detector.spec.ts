@@ -0,0 +1,169 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: runtime_detector.spec.ts
+    Description: Runtime Detector Test Specification.
+    Written by: Nikita Petko
+*/
+
+import runtimeDetector from '../environment/runtime_detector';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const id = 'a'.repeat(32) + 'b'.repeat(32);
+const roots: string[] = [];
+
+const createRoot = (files: [string, string][]) => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'node-environment-runtime-'));
+
+  for (const [name, content] of files) {
+    fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+    fs.writeFileSync(path.join(root, name), content);
+  }
+
+  roots.push(root);
+
+  return root;
+};
+
+const mount = (source: string, target: string) => `1234 1200 254:1 ${source} ${target} rw,relatime - ext4 /dev/vda1 rw`;
+
+const detect = (files: [string, string][], env: NodeJS.ProcessEnv = {}) =>
+  runtimeDetector.detect({ root: createRoot(files), env, platform: 'linux' });
+
+afterAll(() => {
+  for (const root of roots) fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('Runtime Detector', () => {
+  describe('detect', () => {
+    it('should detect a host', () => {
+      expect(
+        detect([
+          ['proc/self/cgroup', '0::/user.slice/user-1000.slice/session-2.scope\n'],
+          [
+            'proc/self/mountinfo',
+            mount('/', '/') + '\n' + mount(`/var/lib/docker/containers/${id}/hosts`, '/mnt/hosts'),
+          ],
+          ['proc/1/sched', 'systemd (1, #threads: 1)\n---\n'],
+        ]),
+      ).toEqual({ container: false, kubernetes: false, wsl: false, cgroupVersion: 2 });
+    });
+
+    it('should detect Docker on cgroup v1', () => {
+      expect(
+        detect([
+          ['.dockerenv', ''],
+          ['proc/self/cgroup', `12:memory:/docker/${id}\n11:cpu,cpuacct:/docker/${id}\n`],
+        ]),
+      ).toEqual({
+        container: true,
+        engine: 'docker',
+        cgroupVersion: 1,
+        kubernetes: false,
+        containerId: id,
+        wsl: false,
+      });
+    });
+
+    it('should find the container ID in the mounts on cgroup v2', () => {
+      expect(
+        detect([
+          ['proc/self/cgroup', '0::/\n'],
+          ['proc/self/mountinfo', mount(`/var/lib/docker/containers/${id}/resolv.conf`, '/etc/resolv.conf')],
+        ]),
+      ).toEqual({
+        container: true,
+        engine: 'docker',
+        cgroupVersion: 2,
+        kubernetes: false,
+        containerId: id,
+        wsl: false,
+      });
+    });
+
+    it('should detect Podman', () => {
+      const runtime = detect([
+        ['run/.containerenv', 'engine="podman-4.4.1"\n'],
+        ['proc/self/cgroup', '0::/\n'],
+        [
+          'proc/self/mountinfo',
+          mount(`/containers/storage/overlay-containers/${id}/userdata/hostname`, '/etc/hostname'),
+        ],
+      ]);
+
+      expect(runtime).toMatchObject({ container: true, engine: 'podman', containerId: id, kubernetes: false });
+    });
+
+    it('should detect a Kubernetes pod from the service account token and the environment', () => {
+      const files: [string, string][] = [
+        ['proc/self/cgroup', `0::/kubepods.slice/kubepods-burstable.slice/cri-containerd-${id}.scope\n`],
+      ];
+
+      expect(detect(files)).toMatchObject({ container: true, engine: 'containerd', kubernetes: true, containerId: id });
+      expect(detect([['var/run/secrets/kubernetes.io/serviceaccount/token', 'token']])).toMatchObject({
+        container: true,
+        kubernetes: true,
+      });
+      expect(detect([], { KUBERNETES_SERVICE_HOST: '10.0.0.1' })).toMatchObject({ container: true, kubernetes: true });
+    });
+
+    it('should detect CRI-O', () => {
+      expect(
+        detect([
+          ['run/.containerenv', ''],
+          ['run/secrets/kubernetes.io/serviceaccount/token', 'token'],
+          ['proc/self/cgroup', `0::/kubepods.slice/crio-${id}.scope\n`],
+        ]),
+      ).toMatchObject({ engine: 'cri-o', kubernetes: true, containerId: id });
+    });
+
+    it('should detect LXC', () => {
+      expect(detect([['proc/self/cgroup', '0::/lxc.payload.web\n']])).toMatchObject({
+        container: true,
+        engine: 'lxc',
+        containerId: 'web',
+      });
+      expect(detect([], { container: 'lxc' })).toMatchObject({ container: true, engine: 'lxc' });
+    });
+
+    it('should detect a container from the PID of the first process', () => {
+      expect(detect([['proc/1/sched', 'node (28417, #threads: 11)\n---\n']])).toEqual({
+        container: true,
+        kubernetes: false,
+        wsl: false,
+      });
+    });
+
+    it('should detect WSL', () => {
+      expect(detect([['proc/sys/kernel/osrelease', '5.15.90.1-microsoft-standard-WSL2\n']]).wsl).toBe(true);
+      expect(detect([], { WSL_DISTRO_NAME: 'Ubuntu' }).wsl).toBe(true);
+    });
+
+    it('should not inspect the filesystem on other platforms', () => {
+      const root = createRoot([['.dockerenv', '']]);
+
+      expect(runtimeDetector.detect({ root, env: {}, platform: 'win32' })).toEqual({
+        container: false,
+        kubernetes: false,
+        wsl: false,
+      });
+    });
+  });
+});
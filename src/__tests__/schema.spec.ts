@@ -0,0 +1,75 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: schema.spec.ts
+    Description: Schema Validator Test Specification.
+    Written by: Nikita Petko
+*/
+
+import schemaValidator from '../environment/schema';
+
+describe('Schema Validator', () => {
+  describe('check', () => {
+    it('should accept values without constraints', () => {
+      expect(schemaValidator.check('foo', {})).toEqual([]);
+      expect(schemaValidator.check(undefined, {})).toEqual([]);
+    });
+
+    it('should reject NaN', () => {
+      expect(schemaValidator.check(NaN, { type: 'number' })).toEqual(['is not a valid number']);
+      expect(schemaValidator.check([1, NaN], { type: 'array<number>' })).toEqual(['is not a valid number']);
+    });
+
+    it('should check the minimum and maximum', () => {
+      const entry = { constraints: { min: 1, max: 10 } };
+
+      expect(schemaValidator.check(5, entry)).toEqual([]);
+      expect(schemaValidator.check(0, entry)).toEqual(['must be at least 1']);
+      expect(schemaValidator.check(11n, entry)).toEqual(['must be at most 10']);
+    });
+
+    it('should check the length', () => {
+      const entry = { constraints: { minLength: 2, maxLength: 3 } };
+
+      expect(schemaValidator.check('ab', entry)).toEqual([]);
+      expect(schemaValidator.check('a', entry)).toEqual(['must have a length of at least 2']);
+      expect(schemaValidator.check([1, 2, 3, 4], entry)).toEqual(['must have a length of at most 3']);
+    });
+
+    it('should check the pattern', () => {
+      const entry = { constraints: { pattern: /^[a-z]+$/ } };
+
+      expect(schemaValidator.check(['a', 'b'], entry)).toEqual([]);
+      expect(schemaValidator.check('A', entry)).toEqual(['must match /^[a-z]+$/']);
+    });
+
+    it('should check the allowed values', () => {
+      const entry = { constraints: { oneOf: ['debug', 'info'] } };
+
+      expect(schemaValidator.check('info', entry)).toEqual([]);
+      expect(schemaValidator.check(['info', 'trace'], entry)).toEqual(['must be one of debug, info']);
+    });
+
+    it('should run the custom validator', () => {
+      expect(schemaValidator.check(1, { constraints: { validate: (value: number) => value % 2 === 1 } })).toEqual([]);
+      expect(schemaValidator.check(2, { constraints: { validate: (value: number) => value % 2 === 1 } })).toEqual([
+        'failed validation',
+      ]);
+      expect(schemaValidator.check(2, { constraints: { validate: () => 'must be odd' } })).toEqual(['must be odd']);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: schema_generators.spec.ts
+    Description: Schema Generators Test Specification.
+    Written by: Nikita Petko
+*/
+
+import schemaGenerators from '../environment/schema_generators';
+import dotEnvParser from '../environment/dotenv_parser';
+import { Schema } from '../environment/schema';
+import StageDefaults from '../environment/stage_defaults';
+
+const schema: Schema = {
+  port: { name: 'PORT', type: 'port', default: 8080, description: 'The port to listen on.' },
+  hosts: { name: 'ALLOWED_HOSTS', default: ['localhost', '127.0.0.1'], constraints: { maxLength: 4 } },
+  databaseUrl: { name: 'DATABASE_URL', required: true, description: 'The database connection string.' },
+  apiKey: { name: 'API_KEY', secret: true, default: 'insecure' },
+  greeting: { name: 'GREETING', default: 'hello world | $USER' },
+  publicUrl: { name: 'PUBLIC_URL', type: 'url', default: () => new URL('http://localhost') },
+  level: { name: 'LOG_LEVEL', type: 'enum<debug|info>', default: 'info' },
+};
+
+describe('Schema Generators', () => {
+  describe('toEnvExample', () => {
+    it('should comment every variable with its description, type and flags', () => {
+      expect(schemaGenerators.toEnvExample(schema)).toEqual(
+        [
+          '# The port to listen on.',
+          '# Type: port. Default: 8080.',
+          'PORT=8080',
+          '',
+          '# Type: array<string>. Default: localhost,127.0.0.1.',
+          'ALLOWED_HOSTS=localhost,127.0.0.1',
+          '',
+          '# The database connection string.',
+          '# Type: string. Required.',
+          'DATABASE_URL=',
+          '',
+          '# Type: string. Secret.',
+          'API_KEY=',
+          '',
+          '# Type: string. Default: hello world | $USER.',
+          'GREETING=\'hello world | $USER\'',
+          '',
+          '# Type: url. Default: computed.',
+          'PUBLIC_URL=',
+          '',
+          '# Type: enum<debug|info>. Default: info.',
+          'LOG_LEVEL=info',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should generate a file that parses back to the defaults', () => {
+      const entries = dotEnvParser.parse(
+        schemaGenerators.toEnvExample({
+          a: { name: 'A', default: 'it\'s "quoted"' },
+          b: { name: 'B', default: 'multi\nline' },
+          c: { name: 'C', default: '' },
+        }),
+      );
+
+      expect([...entries.values()].map(({ key, value }) => [key, value])).toEqual([
+        ['A', 'it\'s "quoted"'],
+        ['B', 'multi\nline'],
+        ['C', ''],
+      ]);
+    });
+  });
+
+  describe('stages', () => {
+    const stageSchema: Schema = {
+      poolSize: { name: 'POOL_SIZE', default: new StageDefaults({ production: 10, default: 2 }) },
+      apiKey: { name: 'API_KEY', requiredIn: ['staging', 'production'] },
+    };
+
+    it('should document the defaults of each stage and the stages a variable is required in', () => {
+      expect(schemaGenerators.toEnvExample(stageSchema)).toEqual(
+        [
+          '# Type: number. Default: 10 in production, 2 otherwise.',
+          'POOL_SIZE=2',
+          '',
+          '# Type: string. Required in staging, production.',
+          'API_KEY=',
+          '',
+        ].join('\n'),
+      );
+      expect(schemaGenerators.toMarkdown(stageSchema)).toContain(
+        '| `API_KEY`   | `string` | In staging, production | ',
+      );
+      expect(schemaGenerators.toJsonSchema(stageSchema).properties.POOL_SIZE).toEqual({ type: 'number', default: 2 });
+    });
+  });
+
+  describe('aliases', () => {
+    it('should document the aliases and deprecated names of a variable', () => {
+      const aliasSchema: Schema = {
+        redisUrl: { name: 'CACHE_REDIS_URL', aliases: ['CACHE_URL'], deprecated: ['REDIS_URL'] },
+      };
+
+      expect(schemaGenerators.toEnvExample(aliasSchema)).toEqual(
+        '# Type: string. Aliases: CACHE_URL. Deprecated names: REDIS_URL.\nCACHE_REDIS_URL=\n',
+      );
+      expect(schemaGenerators.toMarkdown(aliasSchema)).toContain(
+        '| Aliases: `CACHE_URL`. Deprecated names: `REDIS_URL`. |',
+      );
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should generate an aligned reference table', () => {
+      const table = schemaGenerators.toMarkdown({
+        port: schema.port,
+        databaseUrl: schema.databaseUrl,
+        apiKey: schema.apiKey,
+        level: schema.level,
+      });
+
+      expect(table).toEqual(
+        [
+          '| Variable       | Type                | Required | Default | Description                     |',
+          '| -------------- | ------------------- | -------- | ------- | ------------------------------- |',
+          '| `PORT`         | `port`              | No       | `8080`  | The port to listen on.          |',
+          '| `DATABASE_URL` | `string`            | Yes      |         | The database connection string. |',
+          '| `API_KEY`      | `string`            | No       |         | **Secret.**                     |',
+          '| `LOG_LEVEL`    | `enum<debug\\|info>` | No       | `info`  |                                 |',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should mark computed defaults', () => {
+      expect(schemaGenerators.toMarkdown({ publicUrl: schema.publicUrl })).toContain('| *computed* |');
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should describe the converted values of the variables', () => {
+      expect(schemaGenerators.toJsonSchema(schema)).toEqual({
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'object',
+        properties: {
+          PORT: { type: 'integer', minimum: 0, maximum: 65535, default: 8080, description: 'The port to listen on.' },
+          ALLOWED_HOSTS: { type: 'array', items: { type: 'string' }, maxItems: 4, default: ['localhost', '127.0.0.1'] },
+          DATABASE_URL: { type: 'string', description: 'The database connection string.' },
+          API_KEY: { type: 'string', writeOnly: true },
+          GREETING: { type: 'string', default: 'hello world | $USER' },
+          PUBLIC_URL: { type: 'string', format: 'uri' },
+          LOG_LEVEL: { type: 'string', enum: ['debug', 'info'], default: 'info' },
+        },
+        required: ['DATABASE_URL'],
+      });
+    });
+
+    it('should apply constraints to the items of arrays and the values of maps', () => {
+      const { properties } = schemaGenerators.toJsonSchema({
+        tags: { name: 'TAGS', type: 'array<string>', constraints: { pattern: /^[a-z]+$/, oneOf: ['a', 'b'] } },
+        limits: { name: 'LIMITS', type: 'map<string,number>', default: new Map([['cpu', 2]]) },
+      });
+
+      expect(properties.TAGS).toEqual({
+        type: 'array',
+        items: { type: 'string', pattern: '^[a-z]+$', enum: ['a', 'b'] },
+      });
+      expect(properties.LIMITS).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        default: { cpu: 2 },
+      });
+    });
+  });
+});
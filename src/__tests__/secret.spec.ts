@@ -0,0 +1,41 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: secret.spec.ts
+    Description: Secret Test Specification.
+    Written by: Nikita Petko
+*/
+
+import Secret from '../environment/secret';
+
+import { inspect } from 'util';
+
+describe('Secret', () => {
+  it('should reveal the value', () => {
+    expect(new Secret('hunter2').reveal()).toEqual('hunter2');
+    expect(new Secret(8080).reveal()).toEqual(8080);
+  });
+
+  it('should redact the value when logged or serialized', () => {
+    const secret = new Secret('hunter2');
+
+    expect(inspect({ password: secret })).toEqual('{ password: Secret [REDACTED] }');
+    expect(JSON.stringify({ password: secret })).toEqual('{"password":"[REDACTED]"}');
+    expect(`${secret}`).toEqual('[REDACTED]');
+    expect(Object.values(secret)).toEqual([]);
+  });
+});
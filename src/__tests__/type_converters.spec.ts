@@ -20,7 +20,10 @@
     Written by: Nikita Petko
 */
 
+/* eslint-disable quotes */
+
 import typeConverters from '../environment/type_converters';
+import TypeConversionError from '../environment/errors/type_conversion_error';
 
 describe('Type Converters', () => {
   describe('toBoolean', () => {
@@ -40,6 +43,79 @@ describe('Type Converters', () => {
       expect(typeConverters.toBoolean('test', true)).toEqual(true);
       expect(typeConverters.toBoolean(null, false)).toEqual(false);
     });
+
+    it('should only accept known values in strict mode', () => {
+      expect(typeConverters.toBoolean('YES', undefined, true)).toEqual(true);
+      expect(typeConverters.toBoolean(' off ', undefined, true)).toEqual(false);
+      expect(typeConverters.toBoolean(undefined, true, true)).toEqual(true);
+      expect(() => typeConverters.toBoolean('yes please', true, true)).toThrow(TypeConversionError);
+      expect(() => typeConverters.toBoolean('2', false, true)).toThrow('Cannot convert "2" to boolean');
+    });
+  });
+
+  describe('toNumber', () => {
+    it('should convert to a number', () => {
+      expect(typeConverters.toNumber('1.5')).toEqual(1.5);
+      expect(typeConverters.toNumber('1.5abc')).toEqual(1.5);
+      expect(typeConverters.toNumber('abc')).toBeNaN();
+    });
+
+    it('should throw in strict mode', () => {
+      expect(typeConverters.toNumber('1.5', true)).toEqual(1.5);
+      expect(typeConverters.toNumber(2, true)).toEqual(2);
+      expect(typeConverters.toNumber(undefined, true)).toBeUndefined();
+      expect(() => typeConverters.toNumber('1.5abc', true)).toThrow(TypeConversionError);
+      expect(() => typeConverters.toNumber(' ', true)).toThrow(TypeConversionError);
+    });
+  });
+
+  describe('toBigInt', () => {
+    it('should convert to a bigint', () => {
+      expect(typeConverters.toBigInt('1')).toEqual(1n);
+      expect(() => typeConverters.toBigInt('1.5')).toThrow(SyntaxError);
+    });
+
+    it('should throw a TypeConversionError in strict mode', () => {
+      expect(typeConverters.toBigInt('1', true)).toEqual(1n);
+      expect(typeConverters.toBigInt(undefined, true)).toBeUndefined();
+
+      try {
+        typeConverters.toBigInt('1.5', true);
+        fail('Expected an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TypeConversionError);
+        expect((error as TypeConversionError).value).toEqual('1.5');
+        expect((error as TypeConversionError).expectedType).toEqual('bigint');
+        expect((error as TypeConversionError).cause).toBeInstanceOf(SyntaxError);
+      }
+    });
+  });
+
+  describe('toObject', () => {
+    it('should convert to an object', () => {
+      expect(typeConverters.toObject('{"foo":"bar"}')).toEqual({ foo: 'bar' });
+      expect(typeConverters.toObject('1')).toEqual(1);
+    });
+
+    it('should throw a TypeConversionError in strict mode', () => {
+      expect(typeConverters.toObject('[1]', true)).toEqual([1]);
+      expect(typeConverters.toObject(undefined, true)).toBeUndefined();
+      expect(() => typeConverters.toObject('{', true)).toThrow(TypeConversionError);
+      expect(() => typeConverters.toObject('null', true)).toThrow('Cannot convert "null" to object');
+    });
+  });
+
+  describe('toRegExp', () => {
+    it('should convert to a regular expression', () => {
+      expect(typeConverters.toRegExp('^foo$', 'i')).toEqual(/^foo$/i);
+      expect(() => typeConverters.toRegExp('(')).toThrow(SyntaxError);
+    });
+
+    it('should throw a TypeConversionError in strict mode', () => {
+      expect(typeConverters.toRegExp('^foo$', undefined, true)).toEqual(/^foo$/);
+      expect(typeConverters.toRegExp(undefined, undefined, true)).toBeUndefined();
+      expect(() => typeConverters.toRegExp('(', undefined, true)).toThrow(TypeConversionError);
+    });
   });
 
   describe('toArray', () => {
@@ -47,4 +123,278 @@ describe('Type Converters', () => {
       expect(typeConverters.toArray(['1', '2', '3'], v => parseInt(v))).toEqual([1, 2, 3]);
     });
   });
+
+  describe('splitArray', () => {
+    it('should keep the whitespace and empty items by default', () => {
+      expect(typeConverters.splitArray(' a, ,b ,')).toEqual([' a', ' ', 'b ', '']);
+      expect(typeConverters.splitArray('')).toEqual(['']);
+    });
+
+    it('should trim and drop empty items if asked to', () => {
+      expect(typeConverters.splitArray(' a, ,b ,', { trim: true, removeEmpty: true })).toEqual(['a', 'b']);
+      expect(typeConverters.splitArray(' a, ,b', { removeEmpty: true })).toEqual([' a', ' ', 'b']);
+    });
+
+    it('should not split within quotes, braces or brackets', () => {
+      expect(typeConverters.splitArray(`"a,b", 'c,d', it's`)).toEqual(['a,b', 'c,d', " it's"]);
+      expect(typeConverters.splitArray('{"a":1,"b":"x,y"},[1,2]')).toEqual(['{"a":1,"b":"x,y"}', '[1,2]']);
+    });
+
+    it('should split on a custom delimiter', () => {
+      expect(typeConverters.splitArray('a,b;c || d', { delimiter: ';' })).toEqual(['a,b', 'c || d']);
+      expect(typeConverters.splitArray('a || b', { delimiter: '||', trim: true })).toEqual(['a', 'b']);
+    });
+
+    it('should parse JSON arrays if asked to', () => {
+      expect(typeConverters.splitArray('["a,b", 1, {"c":2}]', { json: true })).toEqual(['a,b', '1', '{"c":2}']);
+      expect(typeConverters.splitArray('["a","b"]')).toEqual(['["a","b"]']);
+    });
+  });
+
+  describe('splitMap', () => {
+    it('should split key and value pairs', () => {
+      expect(typeConverters.splitMap('a:1, b : 2,c:http://x')).toEqual([
+        ['a', '1'],
+        [' b ', ' 2'],
+        ['c', 'http://x'],
+      ]);
+      expect(typeConverters.splitMap('a:1, b : 2', { trim: true })).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+      expect(typeConverters.splitMap('a=1;b=2', { delimiter: ';', separator: '=' })).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+    });
+
+    it('should parse JSON objects if asked to', () => {
+      expect(typeConverters.splitMap('{"a":1}')).toEqual([['{"a"', '1}']]);
+      expect(typeConverters.splitMap('{"a":1,"b":"x"}', { json: true })).toEqual([
+        ['a', '1'],
+        ['b', 'x'],
+      ]);
+    });
+
+    it('should throw on entries without a separator', () => {
+      expect(() => typeConverters.splitMap('a:1,b')).toThrow(TypeConversionError);
+    });
+  });
+
+  describe('toMap', () => {
+    it('should convert to a map', () => {
+      expect(typeConverters.toMap([['a', '1']], (k) => k.toUpperCase(), (v) => parseInt(v))).toEqual(new Map([['A', 1]]));
+    });
+  });
+
+  describe('register', () => {
+    afterEach(() => {
+      typeConverters.unregister('test_url');
+    });
+
+    it('should register custom types', () => {
+      typeConverters.register('test_url', { parse: (value) => new URL(value) });
+
+      expect(typeConverters.hasConverter('test_url')).toBe(true);
+      expect(typeConverters.convert<URL>('test_url', 'https://example.com').host).toEqual('example.com');
+      expect(typeConverters.unregister('test_url')).toBe(true);
+      expect(typeConverters.hasConverter('test_url')).toBe(false);
+    });
+
+    it('should not replace built-in types or accept invalid names', () => {
+      expect(() => typeConverters.register('number', { parse: Number })).toThrow("'number' is a built-in type");
+      expect(() => typeConverters.register('array', { parse: Number })).toThrow("'array' is not a valid type name");
+      expect(() => typeConverters.register('a<b>', { parse: Number })).toThrow("'a<b>' is not a valid type name");
+    });
+
+    it('should throw for unregistered types', () => {
+      expect(() => typeConverters.convert('test_url', 'x')).toThrow("'test_url' is not a registered type");
+    });
+
+    it('should rethrow errors as TypeConversionErrors in strict mode', () => {
+      typeConverters.register('test_url', {
+        parse: () => {
+          throw new Error('Invalid URL');
+        },
+      });
+
+      expect(() => typeConverters.convert('test_url', 'not a url')).toThrow('Invalid URL');
+      expect(() => typeConverters.convert('test_url', 'not a url', true)).toThrow(TypeConversionError);
+      expect(() => typeConverters.convert('test_url', 'not a url', true)).toThrow(
+        'Cannot convert "not a url" to test_url: Invalid URL',
+      );
+    });
+  });
+
+  describe('serialize', () => {
+    it('should serialize values', () => {
+      expect(typeConverters.serialize('foo')).toEqual('foo');
+      expect(typeConverters.serialize(1)).toEqual('1');
+      expect(typeConverters.serialize(1n)).toEqual('1');
+      expect(typeConverters.serialize([1, 2])).toEqual('1,2');
+      expect(typeConverters.serialize(/^foo$/)).toEqual('^foo$');
+      expect(typeConverters.serialize({ foo: 'bar' })).toEqual('{"foo":"bar"}');
+      expect(typeConverters.serialize(new Map([['a', 1]]))).toEqual('a:1');
+      expect(typeConverters.serialize(new Map([['a', 30000]]), 'map<string,duration>')).toEqual('a:30000ms');
+    });
+
+    it('should use the serializer of custom types', () => {
+      typeConverters.register('test_url', { parse: (value) => new URL(value), serialize: (value) => value.href });
+
+      expect(typeConverters.serialize(new URL('https://example.com'), 'test_url')).toEqual('https://example.com/');
+      expect(typeConverters.serialize([new URL('https://a.com')], 'array<test_url>')).toEqual('https://a.com/');
+
+      typeConverters.unregister('test_url');
+    });
+  });
+
+  describe('toDuration', () => {
+    it('should convert durations to milliseconds', () => {
+      expect(typeConverters.toDuration('250')).toEqual(250);
+      expect(typeConverters.toDuration('500ms')).toEqual(500);
+      expect(typeConverters.toDuration('30s')).toEqual(30000);
+      expect(typeConverters.toDuration('1.5m')).toEqual(90000);
+      expect(typeConverters.toDuration('1h30m')).toEqual(5400000);
+      expect(typeConverters.toDuration('2D')).toEqual(172800000);
+      expect(typeConverters.toDuration('1w')).toEqual(604800000);
+    });
+
+    it('should throw on invalid durations', () => {
+      expect(() => typeConverters.toDuration('30 seconds')).toThrow(TypeConversionError);
+      expect(() => typeConverters.toDuration('-1s')).toThrow('Cannot convert "-1s" to duration');
+    });
+  });
+
+  describe('toBytes', () => {
+    it('should convert byte sizes to bytes', () => {
+      expect(typeConverters.toBytes('512')).toEqual(512);
+      expect(typeConverters.toBytes('10MiB')).toEqual(10485760);
+      expect(typeConverters.toBytes('10 MB')).toEqual(10000000);
+      expect(typeConverters.toBytes('1.5kB')).toEqual(1500);
+      expect(typeConverters.toBytes('2k')).toEqual(2048);
+      expect(typeConverters.toBytes('1G')).toEqual(1073741824);
+    });
+
+    it('should throw on invalid byte sizes', () => {
+      expect(() => typeConverters.toBytes('10 zettabytes')).toThrow(TypeConversionError);
+      expect(() => typeConverters.toBytes('MB')).toThrow('Cannot convert "MB" to bytes');
+    });
+  });
+
+  describe('toUrl', () => {
+    it('should convert to a URL', () => {
+      expect(typeConverters.toUrl('https://example.com/path').pathname).toEqual('/path');
+    });
+
+    it('should throw on invalid URLs', () => {
+      expect(() => typeConverters.toUrl('not a url')).toThrow(TypeConversionError);
+    });
+  });
+
+  describe('toPort', () => {
+    it('should convert to a port', () => {
+      expect(typeConverters.toPort('8080')).toEqual(8080);
+      expect(typeConverters.toPort('0')).toEqual(0);
+      expect(typeConverters.toPort('65535')).toEqual(65535);
+    });
+
+    it('should throw on ports out of range', () => {
+      expect(() => typeConverters.toPort('65536')).toThrow('Cannot convert "65536" to port');
+      expect(() => typeConverters.toPort('-1')).toThrow(TypeConversionError);
+      expect(() => typeConverters.toPort('80.5')).toThrow(TypeConversionError);
+    });
+  });
+
+  describe('toDate', () => {
+    it('should convert ISO 8601 dates', () => {
+      expect(typeConverters.toDate('2022-11-20').toISOString()).toEqual('2022-11-20T00:00:00.000Z');
+      expect(typeConverters.toDate('2022-11-20T12:00:00+01:00').toISOString()).toEqual('2022-11-20T11:00:00.000Z');
+      expect(typeConverters.toDate('2022-11-20T12:00:00.5Z').toISOString()).toEqual('2022-11-20T12:00:00.500Z');
+    });
+
+    it('should throw on invalid dates', () => {
+      expect(() => typeConverters.toDate('November 20, 2022')).toThrow('Cannot convert "November 20, 2022" to date');
+      expect(() => typeConverters.toDate('2022-13-45')).toThrow(TypeConversionError);
+    });
+  });
+
+  describe('toIp', () => {
+    it('should validate IP addresses', () => {
+      expect(typeConverters.toIp(' 127.0.0.1 ')).toEqual('127.0.0.1');
+      expect(typeConverters.toIp('::1')).toEqual('::1');
+    });
+
+    it('should throw on invalid IP addresses', () => {
+      expect(() => typeConverters.toIp('256.0.0.1')).toThrow('Cannot convert "256.0.0.1" to ip');
+    });
+  });
+
+  describe('toCidr', () => {
+    it('should convert IPv4 ranges', () => {
+      const range = typeConverters.toCidr('10.0.0.0/8');
+
+      expect(range).toMatchObject({ address: '10.0.0.0', prefix: 8, family: 4 });
+      expect(range.contains('10.255.1.2')).toBe(true);
+      expect(range.contains('11.0.0.1')).toBe(false);
+      expect(range.contains('::1')).toBe(false);
+      expect(typeConverters.toCidr('0.0.0.0/0').contains('8.8.8.8')).toBe(true);
+    });
+
+    it('should convert IPv6 ranges', () => {
+      const range = typeConverters.toCidr('2001:db8::/32');
+
+      expect(range).toMatchObject({ address: '2001:db8::', prefix: 32, family: 6 });
+      expect(range.contains('2001:db8:1::1')).toBe(true);
+      expect(range.contains('2001:db9::1')).toBe(false);
+      expect(typeConverters.toCidr('::ffff:10.0.0.0/104').contains('::ffff:10.1.2.3')).toBe(true);
+    });
+
+    it('should treat bare addresses as single address ranges', () => {
+      const range = typeConverters.toCidr('192.168.0.1');
+
+      expect(range.prefix).toEqual(32);
+      expect(range.contains('192.168.0.1')).toBe(true);
+      expect(range.contains('192.168.0.2')).toBe(false);
+    });
+
+    it('should throw on invalid ranges', () => {
+      expect(() => typeConverters.toCidr('10.0.0.0/33')).toThrow('Cannot convert "10.0.0.0/33" to cidr');
+      expect(() => typeConverters.toCidr('10.0.0.0/8/8')).toThrow(TypeConversionError);
+      expect(() => typeConverters.toCidr('example.com/8')).toThrow(TypeConversionError);
+    });
+  });
+
+  describe('toEnum', () => {
+    it('should accept allowed values', () => {
+      expect(typeConverters.toEnum('info', ['debug', 'info'])).toEqual('info');
+    });
+
+    it('should throw on other values', () => {
+      expect(() => typeConverters.toEnum('trace', ['debug', 'info'])).toThrow(
+        'Cannot convert "trace" to enum<debug|info>',
+      );
+    });
+  });
+
+  describe('convert', () => {
+    it('should convert the built-in named types', () => {
+      expect(typeConverters.hasConverter('duration')).toBe(true);
+      expect(typeConverters.hasConverter('enum<a|b>')).toBe(true);
+      expect(typeConverters.hasConverter('number')).toBe(false);
+      expect(typeConverters.convert('duration', '1s')).toEqual(1000);
+      expect(typeConverters.convert('enum<a|b>', 'b')).toEqual('b');
+      expect(() => typeConverters.convert('port', 'x')).toThrow(TypeConversionError);
+    });
+
+    it('should not let the built-in named types be replaced', () => {
+      expect(() => typeConverters.register('duration', { parse: Number })).toThrow("'duration' is a built-in type");
+      expect(() => typeConverters.register('enum', { parse: Number })).toThrow("'enum' is a built-in type");
+    });
+
+    it('should serialize the built-in named types', () => {
+      expect(typeConverters.serialize(1000, 'duration')).toEqual('1000ms');
+      expect(typeConverters.serialize(new Date(0), 'date')).toEqual('1970-01-01T00:00:00.000Z');
+      expect(typeConverters.serialize(typeConverters.toCidr('10.0.0.0/8'), 'cidr')).toEqual('10.0.0.0/8');
+    });
+  });
 });
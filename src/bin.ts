@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: bin.ts
+    Description: The entry point of the node-environment command-line tool.
+    Written by: Nikita Petko
+*/
+
+import cli from './cli';
+
+cli.run(process.argv.slice(2)).then((code) => (process.exitCode = code));
@@ -0,0 +1,402 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: cli.ts
+    Description: The node-environment command-line tool.
+    Written by: Nikita Petko
+*/
+
+import Environment from './environment';
+import dotEnvParser from './environment/dotenv_parser';
+import { Schema } from './environment/schema';
+import EnvironmentValidationError from './environment/errors/environment_validation_error';
+import Secret from './environment/secret';
+import { IRule } from './environment/rules';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+
+/**
+ * The streams the command-line tool writes to.
+ */
+export interface ICliOutput {
+  /**
+   * Writes to the standard output.
+   */
+  stdout: (text: string) => void;
+
+  /**
+   * Writes to the standard error.
+   */
+  stderr: (text: string) => void;
+}
+
+/**
+ * The options shared by the commands.
+ *
+ * @internal This interface is only ingested internally.
+ */
+interface ICliOptions {
+  /**
+   * The path of the module that exports the schema.
+   */
+  schema?: string;
+
+  /**
+   * The name of the export of the module that holds the schema.
+   */
+  export?: string;
+
+  /**
+   * The .env files to load, lowest precedence first.
+   */
+  envFile?: string[];
+
+  /**
+   * The output format of `print` and `diff`.
+   */
+  format?: string;
+}
+
+/**
+ * An error in the arguments passed to the command-line tool.
+ *
+ * @internal This class is only ingested internally.
+ */
+class CliUsageError extends Error {
+  /**
+   * Constructs a new CliUsageError.
+   * @param {string} message The reason the arguments are invalid.
+   */
+  public constructor(message: string) {
+    super(message);
+
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * The `node-environment` command-line tool, which checks, prints and diffs environments.
+ *
+ * Its exit code is 0 on success, 1 if the environment is invalid or the environments differ, and 2 if the arguments are invalid.
+ */
+export default abstract class Cli {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _usage = [
+    'Usage: node-environment <command> [options]',
+    '',
+    'Commands:',
+    '  check           Validates the environment against a schema.',
+    '  print           Prints the resolved configuration, with secrets redacted.',
+    '  diff <a> <b>    Compares two .env files by key. Use - for the current environment.',
+    '',
+    'Options:',
+    '  --schema <file>     A module that exports a schema or an environment class with declared variables, and',
+    '                      optionally the rules that span several variables as `rules`.',
+    '  --export <name>     The export of the schema module to use, defaults to `schema` or the default export.',
+    '  --env-file <file>   A .env file to load, can be given multiple times. Variables already set take precedence.',
+    '  --format <format>   The output format of print and diff, either table or json. Defaults to table.',
+    '  --help              Shows this message.',
+    '',
+  ].join('\n');
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _processOutput: ICliOutput = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  };
+
+  /**
+   * Runs the command-line tool.
+   *
+   * @example
+   * ```typescript
+   * import cli from '@lib/cli';
+   *
+   * process.exitCode = await cli.run(['check', '--schema', './lib/config.js', '--env-file', '.env']);
+   * ```
+   * @param {string[]} argv The arguments, without the node executable and script.
+   * @param {ICliOutput} [output] The streams to write to, defaults to the standard output and error of the process.
+   * @returns {Promise<number>} The exit code.
+   */
+  public static async run(argv: string[], output: ICliOutput = Cli._processOutput): Promise<number> {
+    try {
+      const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+          schema: { type: 'string' },
+          export: { type: 'string' },
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          'env-file': { type: 'string', multiple: true },
+          format: { type: 'string' },
+          help: { type: 'boolean', short: 'h' },
+        },
+      });
+
+      const [command, ...operands] = positionals;
+      const options: ICliOptions = { ...values, envFile: values['env-file'] };
+
+      if (values.help || command === undefined) {
+        output.stdout(this._usage);
+
+        return command === undefined && !values.help ? 2 : 0;
+      }
+
+      if (options.format !== undefined && !['table', 'json'].includes(options.format))
+        throw new CliUsageError(`Unknown format '${options.format}'`);
+
+      switch (command) {
+        case 'check':
+          return await this._check(options, output);
+        case 'print':
+          return await this._print(options, output);
+        case 'diff':
+          if (operands.length !== 2) throw new CliUsageError('diff takes exactly two files');
+
+          return this._diff(operands[0], operands[1], options, output);
+        default:
+          throw new CliUsageError(`Unknown command '${command}'`);
+      }
+    } catch (error) {
+      const isUsageError =
+        error instanceof CliUsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS');
+
+      output.stderr(`node-environment: ${(error as Error).message}\n`);
+
+      return isUsageError ? 2 : 1;
+    }
+  }
+
+  /**
+   * Validates the environment against the schema.
+   * @param {ICliOptions} options The options.
+   * @param {ICliOutput} output The streams to write to.
+   * @returns {Promise<number>} The exit code.
+   * @internal This is a private member.
+   */
+  private static async _check(options: ICliOptions, output: ICliOutput): Promise<number> {
+    if (options.schema === undefined) throw new CliUsageError('check requires --schema');
+
+    const schema = await this._loadSchema(options);
+    const rules = await this._loadRules(options);
+    const env = this._createEnvironment(options);
+
+    try {
+      env.validate(schema, rules);
+    } catch (error) {
+      if (!(error instanceof EnvironmentValidationError)) throw error;
+
+      output.stderr(error.message + '\n');
+
+      return 1;
+    }
+
+    output.stdout(`OK: ${Object.keys(schema).length} variable(s) are valid.\n`);
+
+    return 0;
+  }
+
+  /**
+   * Prints the resolved configuration, which is the variables of the schema, or the variables of the .env files or the process if
+   * there is no schema.
+   * @param {ICliOptions} options The options.
+   * @param {ICliOutput} output The streams to write to.
+   * @returns {Promise<number>} The exit code.
+   * @internal This is a private member.
+   */
+  private static async _print(options: ICliOptions, output: ICliOutput): Promise<number> {
+    const env = this._createEnvironment(options);
+
+    if (options.schema !== undefined) {
+      for (const [property, entry] of Object.entries(await this._loadSchema(options))) {
+        const name = entry.name ?? property;
+
+        if (entry.secret) env.markSecret(name);
+        if (entry.aliases !== undefined || entry.deprecated !== undefined) env.alias(name, entry);
+        env.getOrDefault(name, entry.default, entry.type, { array: entry.array });
+      }
+    } else {
+      const names = env.loadedFiles.length > 0 ? this._loadedNames(env) : Object.keys(process.env);
+
+      for (const name of names) env.getOrDefault(name);
+    }
+
+    const dump = env.dump();
+
+    if (options.format === 'json') {
+      output.stdout(JSON.stringify(dump, null, 2) + '\n');
+
+      return 0;
+    }
+
+    const rows = Object.entries(dump).map(([name, { value, source, type }]) => [name, value ?? '', source, type]);
+    output.stdout(this._formatTable([['VARIABLE', 'VALUE', 'SOURCE', 'TYPE'], ...rows]));
+
+    return 0;
+  }
+
+  /**
+   * Compares two .env files, or a .env file and the current environment, by key.
+   * @param {string} left The first file, or `-` for the current environment.
+   * @param {string} right The second file, or `-` for the current environment.
+   * @param {ICliOptions} options The options.
+   * @param {ICliOutput} output The streams to write to.
+   * @returns {number} The exit code, 1 if the files differ.
+   * @internal This is a private member.
+   */
+  private static _diff(left: string, right: string, options: ICliOptions, output: ICliOutput): number {
+    const before = this._readVariables(left);
+    const after = this._readVariables(right);
+    const env = new Environment();
+    const mask = (name: string, value: string) => (env.isSecret(name) ? Secret.mask : value);
+
+    const added: Record<string, string> = {};
+    const removed: Record<string, string> = {};
+    const changed: Record<string, { from: string; to: string }> = {};
+
+    for (const name of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+      const from = before.get(name);
+      const to = after.get(name);
+
+      if (from === undefined) added[name] = mask(name, to);
+      else if (to === undefined) removed[name] = mask(name, from);
+      else if (from !== to) changed[name] = { from: mask(name, from), to: mask(name, to) };
+    }
+
+    const differs = [added, removed, changed].some((group) => Object.keys(group).length > 0);
+
+    if (options.format === 'json') {
+      output.stdout(JSON.stringify({ added, removed, changed }, null, 2) + '\n');
+    } else {
+      const lines = [
+        ...Object.entries(removed).map(([name, value]) => `- ${name}=${value}`),
+        ...Object.entries(added).map(([name, value]) => `+ ${name}=${value}`),
+        ...Object.entries(changed).map(([name, { from, to }]) => `~ ${name}: ${from} -> ${to}`),
+      ];
+
+      output.stdout(lines.length > 0 ? lines.join('\n') + '\n' : 'No differences.\n');
+    }
+
+    return differs ? 1 : 0;
+  }
+
+  /**
+   * Creates an environment and loads the .env files given in the options.
+   * @param {ICliOptions} options The options.
+   * @returns {Environment} The environment.
+   * @internal This is a private member.
+   */
+  private static _createEnvironment(options: ICliOptions): Environment {
+    const env = new Environment();
+    const files = (options.envFile ?? []).map((file) => path.resolve(file));
+
+    for (const file of files) {
+      if (!fs.existsSync(file)) throw new CliUsageError(`The file '${file}' does not exist`);
+    }
+
+    if (files.length > 0) env.loadEnvFiles({ files });
+
+    return env;
+  }
+
+  /**
+   * Lists the names of the variables loaded from the .env files of the environment.
+   * @param {Environment} env The environment.
+   * @returns {string[]} The names of the loaded variables.
+   * @internal This is a private member.
+   */
+  private static _loadedNames(env: Environment): string[] {
+    const names = new Set<string>();
+
+    for (const file of env.loadedFiles) {
+      for (const name of dotEnvParser.parse(fs.readFileSync(file, 'utf8'), file).keys()) names.add(name);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Loads the schema from the module given in the options.
+   * @param {ICliOptions} options The options.
+   * @returns {Promise<Schema>} The schema.
+   * @internal This is a private member.
+   */
+  private static async _loadSchema(options: ICliOptions): Promise<Schema> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const exports: Record<string, any> = await import(path.resolve(options.schema));
+    const exported =
+      options.export !== undefined
+        ? exports[options.export]
+        : exports.schema ?? exports.default?.schema ?? exports.default;
+
+    if (exported === undefined || exported === null)
+      throw new CliUsageError(`The module '${options.schema}' does not export '${options.export ?? 'schema'}'`);
+
+    if (typeof exported === 'function' && typeof exported.getDeclaredVariables === 'function')
+      return exported.getDeclaredVariables();
+
+    return exported;
+  }
+
+  /**
+   * Loads the rules exported as `rules` by the schema module, if there are any.
+   * @param {ICliOptions} options The options.
+   * @returns {Promise<IRule[]>} The rules.
+   * @internal This is a private member.
+   */
+  private static async _loadRules(options: ICliOptions): Promise<IRule[]> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const exports: Record<string, any> = await import(path.resolve(options.schema));
+
+    return exports.rules ?? exports.default?.rules ?? [];
+  }
+
+  /**
+   * Reads the variables of a .env file, or of the current environment.
+   * @param {string} file The file, or `-` for the current environment.
+   * @returns {Map<string, string>} The variables, keyed by name.
+   * @internal This is a private member.
+   */
+  private static _readVariables(file: string): Map<string, string> {
+    if (file === '-') return new Map(Object.entries(process.env));
+    if (!fs.existsSync(file)) throw new CliUsageError(`The file '${path.resolve(file)}' does not exist`);
+
+    const entries = dotEnvParser.parse(fs.readFileSync(file, 'utf8'), file);
+
+    return new Map([...entries.values()].map((entry) => [entry.key, entry.value]));
+  }
+
+  /**
+   * Formats the rows as a table with aligned columns.
+   * @param {Array<string[]>} rows The rows, starting with the header.
+   * @returns {string} The table.
+   * @internal This is a private member.
+   */
+  private static _formatTable(rows: string[][]): string {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+    const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+
+    return rows.map((row) => format(row).trimEnd()).join('\n') + '\n';
+  }
+}
@@ -0,0 +1,930 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: config_file_parser.ts
+    Description: A parser for JSON, YAML and TOML configuration files.
+    Written by: Nikita Petko
+*/
+
+import ConfigFileParseError from './errors/config_file_parse_error';
+
+import * as path from 'path';
+
+/**
+ * The formats of configuration files that can be parsed.
+ */
+export type ConfigFileFormat = 'json' | 'yaml' | 'toml';
+
+/**
+ * A value parsed from a configuration file.
+ */
+export type ConfigFileValue = string | number | boolean | null | ConfigFileValue[] | { [key: string]: ConfigFileValue };
+
+/**
+ * The position of the YAML parser within a file.
+ *
+ * @internal This interface is only ingested internally.
+ */
+interface IYamlState {
+  /**
+   * The lines of the file.
+   */
+  lines: string[];
+
+  /**
+   * The 0-based index of the current line.
+   */
+  index: number;
+
+  /**
+   * The name of the file, used in error messages.
+   */
+  fileName?: string;
+}
+
+/**
+ * A line of a YAML file that is not blank or a comment.
+ *
+ * @internal This interface is only ingested internally.
+ */
+interface IYamlLine {
+  /**
+   * The number of spaces the line is indented by.
+   */
+  indent: number;
+
+  /**
+   * The contents of the line, without the indentation and comments.
+   */
+  text: string;
+}
+
+/**
+ * The position of the TOML parser within a file.
+ *
+ * @internal This interface is only ingested internally.
+ */
+interface ITomlState {
+  /**
+   * The contents of the file.
+   */
+  content: string;
+
+  /**
+   * The index of the current character.
+   */
+  position: number;
+
+  /**
+   * The name of the file, used in error messages.
+   */
+  fileName?: string;
+}
+
+/**
+ * A parser for JSON, YAML and TOML configuration files.
+ *
+ * YAML and TOML are only supported as far as configuration files need them:
+ * - YAML block mappings and sequences, flow collections on a single line, quoted scalars on a single line, plain scalars, and literal
+ *   (`|`) and folded (`>`) block scalars. Anchors, aliases, tags, multi-line quoted scalars and multiple documents are not supported.
+ * - TOML tables, arrays of tables, dotted and quoted keys, basic, literal and multi-line strings, arrays and inline tables.
+ *
+ * The scalars of YAML and TOML files are kept as the text they were written as, so large integers keep their precision. Only YAML
+ * `null` and `~` are parsed, to null.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class ConfigFileParser {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _extensions = new Map<string, ConfigFileFormat>([
+    ['.json', 'json'],
+    ['.yaml', 'yaml'],
+    ['.yml', 'yaml'],
+    ['.toml', 'toml'],
+  ]);
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _yamlKeyRegex =
+    /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s"'#[\]{},][^:#]*?))\s*:(?=\s|$)\s*/;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _tomlBareKeyRegex = /[A-Za-z0-9_-]+/y;
+
+  /**
+   * The keys that would change the prototype of the parsed objects, instead of adding an entry to them.
+   *
+   * @internal This is a private member.
+   */
+  private static readonly _reservedKeys = new Set(['__proto__', 'constructor', 'prototype']);
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _tomlDateTimeRegex =
+    /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}:\d{2}(?:\.\d+)?/y;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _tomlScalarRegex =
+    /^(?:true|false|[+-]?(?:inf|nan)|[+-]?\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?|0x[\da-fA-F_]+|0o[0-7_]+|0b[01_]+)$/;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _escapes = new Map([
+    ['n', '\n'],
+    ['r', '\r'],
+    ['t', '\t'],
+    ['b', '\b'],
+    ['f', '\f'],
+    ['e', '\x1b'],
+    ['0', '\0'],
+    ['"', '"'],
+    ['\\', '\\'],
+    ['/', '/'],
+  ]);
+
+  /**
+   * Determines the format of a configuration file from its extension.
+   *
+   * @example
+   * ```typescript
+   * import ConfigFileParser from '@lib/environment/config_file_parser';
+   *
+   * ConfigFileParser.formatOf('config/app.yml'); // 'yaml'
+   * ```
+   * @param {string} fileName The name of the file.
+   * @returns {ConfigFileFormat | undefined} The format, or undefined if the extension is not recognized.
+   */
+  public static formatOf(fileName: string): ConfigFileFormat | undefined {
+    return this._extensions.get(path.extname(fileName).toLowerCase());
+  }
+
+  /**
+   * Parses the contents of a configuration file.
+   *
+   * @example
+   * ```typescript
+   * import ConfigFileParser from '@lib/environment/config_file_parser';
+   *
+   * ConfigFileParser.parse('[database]\nhost = "localhost"\nport = 5432', 'toml'); // { database: { host: 'localhost', port: '5432' } }
+   * ```
+   * @param {string} content The contents of the file.
+   * @param {ConfigFileFormat} format The format of the file.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {Record<string, ConfigFileValue>} The parsed values.
+   * @throws {ConfigFileParseError} If the file cannot be parsed, or its root is not an object.
+   */
+  public static parse(content: string, format: ConfigFileFormat, fileName?: string): Record<string, ConfigFileValue> {
+    content = content.replace(/^\uFEFF/, '');
+
+    let result: ConfigFileValue;
+
+    switch (format) {
+      case 'json':
+        result = this._parseJson(content, fileName);
+        break;
+      case 'yaml':
+        result = this._parseYaml(content, fileName);
+        break;
+      case 'toml':
+        result = this._parseToml(content, fileName);
+        break;
+    }
+
+    if (typeof result !== 'object' || result === null || Array.isArray(result))
+      throw new ConfigFileParseError('The root of the file must be an object', 1, fileName);
+
+    return result;
+  }
+
+  /**
+   * Flattens parsed values into variables, where the keys of nested values are joined by the separator. Objects and arrays are
+   * provided as a whole as well, as JSON or, for arrays of scalars, as a comma separated list. Null values are left out.
+   *
+   * @example
+   * ```typescript
+   * import ConfigFileParser from '@lib/environment/config_file_parser';
+   *
+   * ConfigFileParser.flatten({ database: { hosts: ['a', 'b'] } }, '__');
+   * // Map { 'database' => '{"hosts":["a","b"]}', 'database__hosts' => 'a,b', 'database__hosts__0' => 'a', 'database__hosts__1' => 'b' }
+   * ```
+   * @param {Record<string, unknown>} values The parsed values.
+   * @param {string} separator The separator between the keys of nested values.
+   * @returns {Map<string, string>} The variables, keyed by their names.
+   */
+  public static flatten(values: Record<string, unknown>, separator: string): Map<string, string> {
+    const variables = new Map<string, string>();
+
+    const visit = (value: unknown, key: string) => {
+      if (value === null || value === undefined) return;
+
+      if (typeof value !== 'object') {
+        variables.set(key, String(value));
+
+        return;
+      }
+
+      if (key !== '') {
+        const isList = Array.isArray(value) && value.every((item) => item === null || typeof item !== 'object');
+
+        variables.set(key, isList ? (value as unknown[]).join(',') : JSON.stringify(value));
+      }
+
+      for (const [child, item] of Object.entries(value)) visit(item, key === '' ? child : key + separator + child);
+    };
+
+    visit(values, '');
+
+    return variables;
+  }
+
+  /**
+   * Parses the contents of a JSON file.
+   * @param {string} content The contents of the file.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {ConfigFileValue} The parsed value.
+   * @internal This is a private member.
+   */
+  private static _parseJson(content: string, fileName?: string): ConfigFileValue {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      const position = /position (\d+)/.exec((error as Error).message)?.[1];
+      const line = position === undefined ? 1 : content.slice(0, Number(position)).split('\n').length;
+
+      throw new ConfigFileParseError((error as Error).message, line, fileName);
+    }
+  }
+
+  /**
+   * Parses the contents of a YAML file.
+   * @param {string} content The contents of the file.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {ConfigFileValue} The parsed value, an empty object if the file is empty.
+   * @internal This is a private member.
+   */
+  private static _parseYaml(content: string, fileName?: string): ConfigFileValue {
+    const state: IYamlState = { lines: content.split(/\r?\n/), index: 0, fileName };
+
+    if (this._peekYamlLine(state) === undefined) return {};
+
+    const result = this._parseYamlBlock(state);
+
+    const rest = this._peekYamlLine(state);
+    if (rest !== undefined) throw this._yamlError(state, `Unexpected '${rest.text}'`);
+
+    return result;
+  }
+
+  /**
+   * Skips the blank lines and comments, and returns the next line without consuming it.
+   * @param {IYamlState} state The position of the parser.
+   * @returns {IYamlLine | undefined} The next line, or undefined at the end of the file.
+   * @internal This is a private member.
+   */
+  private static _peekYamlLine(state: IYamlState): IYamlLine | undefined {
+    for (; state.index < state.lines.length; state.index++) {
+      const raw = state.lines[state.index];
+      const text = this._stripYamlComment(raw).trim();
+
+      if (text === '' || text === '---' || text === '...' || text.startsWith('%')) continue;
+      if (/^ *\t/.test(raw)) throw this._yamlError(state, 'Tabs cannot be used for indentation');
+
+      return { indent: raw.length - raw.trimStart().length, text };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parses the mapping or sequence that starts at the next line.
+   * @param {IYamlState} state The position of the parser.
+   * @returns {ConfigFileValue} The mapping or sequence.
+   * @internal This is a private member.
+   */
+  private static _parseYamlBlock(state: IYamlState): ConfigFileValue {
+    const line = this._peekYamlLine(state);
+
+    return this._isYamlSequenceItem(line.text)
+      ? this._parseYamlSequence(state, line.indent)
+      : this._parseYamlMapping(state, line.indent);
+  }
+
+  /**
+   * Parses the items of a block sequence.
+   * @param {IYamlState} state The position of the parser.
+   * @param {number} indent The indentation of the dashes of the sequence.
+   * @returns {ConfigFileValue[]} The items.
+   * @internal This is a private member.
+   */
+  private static _parseYamlSequence(state: IYamlState, indent: number): ConfigFileValue[] {
+    const items: ConfigFileValue[] = [];
+
+    for (let line = this._peekYamlLine(state); line !== undefined; line = this._peekYamlLine(state)) {
+      if (line.indent < indent || (line.indent === indent && !this._isYamlSequenceItem(line.text))) break;
+      if (line.indent > indent) throw this._yamlError(state, 'Unexpected indentation');
+
+      const rest = line.text.slice(1).trimStart();
+
+      if (rest === '') {
+        state.index++;
+
+        const next = this._peekYamlLine(state);
+        items.push(next !== undefined && next.indent > indent ? this._parseYamlBlock(state) : null);
+      } else if (this._isYamlSequenceItem(rest) || this._yamlKeyRegex.test(rest)) {
+        // The item is a block that starts on the same line as its dash, so parse it as if the dash was indentation.
+        state.lines[state.index] = ' '.repeat(indent + line.text.length - rest.length) + rest;
+        items.push(this._parseYamlBlock(state));
+      } else {
+        state.index++;
+        items.push(this._parseYamlValue(state, rest, indent));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parses the entries of a block mapping.
+   * @param {IYamlState} state The position of the parser.
+   * @param {number} indent The indentation of the keys of the mapping.
+   * @returns {Record<string, ConfigFileValue>} The entries.
+   * @internal This is a private member.
+   */
+  private static _parseYamlMapping(state: IYamlState, indent: number): Record<string, ConfigFileValue> {
+    const mapping: Record<string, ConfigFileValue> = {};
+
+    for (let line = this._peekYamlLine(state); line !== undefined; line = this._peekYamlLine(state)) {
+      if (line.indent < indent || (line.indent === indent && this._isYamlSequenceItem(line.text))) break;
+      if (line.indent > indent) throw this._yamlError(state, 'Unexpected indentation');
+
+      const match = this._yamlKeyRegex.exec(line.text);
+      if (match === null) throw this._yamlError(state, `Expected a key, found '${line.text}'`);
+
+      const key = this._parseYamlKey(state, match);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) throw this._yamlError(state, `Duplicate key '${key}'`);
+
+      const rest = line.text.slice(match[0].length);
+      state.index++;
+
+      if (rest !== '') {
+        mapping[key] = this._parseYamlValue(state, rest, indent);
+
+        continue;
+      }
+
+      // A sequence may be nested at the same indentation as the key it belongs to.
+      const next = this._peekYamlLine(state);
+      const nested =
+        next !== undefined && (next.indent > indent || (next.indent === indent && this._isYamlSequenceItem(next.text)));
+
+      mapping[key] = nested ? this._parseYamlBlock(state) : null;
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Parses the value of a mapping entry or sequence item, which is a block scalar, a flow collection or a scalar.
+   * @param {IYamlState} state The position of the parser, at the line after the value.
+   * @param {string} text The text of the value.
+   * @param {number} indent The indentation of the key or dash the value belongs to.
+   * @returns {ConfigFileValue} The value.
+   * @internal This is a private member.
+   */
+  private static _parseYamlValue(state: IYamlState, text: string, indent: number): ConfigFileValue {
+    const block = /^([|>])([+-]?)$/.exec(text);
+    if (block !== null) return this._parseYamlBlockScalar(state, indent, block[1], block[2]);
+
+    return this._parseYamlScalar(state, text);
+  }
+
+  /**
+   * Parses a literal (`|`) or folded (`>`) block scalar.
+   * @param {IYamlState} state The position of the parser, at the first line of the scalar.
+   * @param {number} indent The indentation of the key or dash the scalar belongs to.
+   * @param {string} style The style of the scalar, `|` or `>`.
+   * @param {string} chomping The chomping indicator, `-` to strip the final line break, `+` to keep the trailing blank lines.
+   * @returns {string} The scalar.
+   * @internal This is a private member.
+   */
+  private static _parseYamlBlockScalar(state: IYamlState, indent: number, style: string, chomping: string): string {
+    const lines: string[] = [];
+    let blockIndent: number | undefined;
+
+    for (; state.index < state.lines.length; state.index++) {
+      const raw = state.lines[state.index];
+
+      if (raw.trim() === '') {
+        lines.push('');
+
+        continue;
+      }
+
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (lineIndent <= indent || lineIndent < (blockIndent ??= lineIndent)) break;
+
+      lines.push(raw.slice(blockIndent));
+    }
+
+    let trailing = 0;
+    for (; lines.length > 0 && lines[lines.length - 1] === ''; trailing++) lines.pop();
+
+    const text =
+      style === '|'
+        ? lines.join('\n')
+        : lines.reduce(
+            (folded, line, i) =>
+              i === 0 ? line : folded + (line === '' ? '\n' : lines[i - 1] === '' ? '' : ' ') + line,
+            '',
+          );
+
+    if (chomping === '-' || text === '') return text;
+
+    return text + '\n'.repeat(chomping === '+' ? trailing + 1 : 1);
+  }
+
+  /**
+   * Parses a flow collection or a quoted or plain scalar.
+   * @param {IYamlState} state The position of the parser, used in error messages.
+   * @param {string} text The text of the scalar.
+   * @returns {ConfigFileValue} The value.
+   * @internal This is a private member.
+   */
+  private static _parseYamlScalar(state: IYamlState, text: string): ConfigFileValue {
+    if (text.startsWith('[') || text.startsWith('{')) return this._parseYamlFlow(state, text);
+
+    if (text.startsWith('"')) {
+      const match = /^"((?:[^"\\]|\\.)*)"$/.exec(text);
+      if (match === null) throw this._yamlError(state, `Invalid double quoted value ${text}`);
+
+      return this._unescape(match[1]);
+    }
+
+    if (text.startsWith('\'')) {
+      const match = /^'((?:[^']|'')*)'$/.exec(text);
+      if (match === null) throw this._yamlError(state, `Invalid single quoted value ${text}`);
+
+      return match[1].replace(/''/g, '\'');
+    }
+
+    return /^(?:~|null|Null|NULL)$/.test(text) ? null : text;
+  }
+
+  /**
+   * Parses a flow sequence or mapping that is written on a single line.
+   * @param {IYamlState} state The position of the parser, used in error messages.
+   * @param {string} text The text of the collection, including its brackets.
+   * @returns {ConfigFileValue} The sequence or mapping.
+   * @internal This is a private member.
+   */
+  private static _parseYamlFlow(state: IYamlState, text: string): ConfigFileValue {
+    const isSequence = text.startsWith('[');
+    if (!text.endsWith(isSequence ? ']' : '}'))
+      throw this._yamlError(state, `Flow collections must end on the line they start, found '${text}'`);
+
+    const items = this._splitYamlFlow(text.slice(1, -1));
+    if (isSequence) return items.map((item) => this._parseYamlScalar(state, item));
+
+    const mapping: Record<string, ConfigFileValue> = {};
+
+    for (const item of items) {
+      const match = this._yamlKeyRegex.exec(item);
+      if (match === null) throw this._yamlError(state, `Expected a key, found '${item}'`);
+
+      const rest = item.slice(match[0].length);
+      mapping[this._parseYamlKey(state, match)] = rest === '' ? null : this._parseYamlScalar(state, rest);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Splits the contents of a flow collection into its items, ignoring the commas within quotes and nested collections.
+   * @param {string} text The contents of the collection, without its brackets.
+   * @returns {string[]} The trimmed items.
+   * @internal This is a private member.
+   */
+  private static _splitYamlFlow(text: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+
+    for (let i = 0; i <= text.length; i++) {
+      const character = text[i];
+
+      if (quote !== undefined) {
+        if (character === '\\' && quote === '"') i++;
+        else if (character === quote) quote = undefined;
+      } else if (character === '"' || character === '\'') {
+        quote = character;
+      } else if (character === '[' || character === '{') {
+        depth++;
+      } else if (character === ']' || character === '}') {
+        depth--;
+      } else if (i === text.length || (character === ',' && depth === 0)) {
+        items.push(text.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+
+    // A trailing comma does not add an item.
+    return items.filter((item, index) => item !== '' || index < items.length - 1);
+  }
+
+  /**
+   * Gets the key of a mapping entry from the match of the key regular expression.
+   * @param {IYamlState} state The position of the parser, used in error messages.
+   * @param {RegExpExecArray} match The match.
+   * @returns {string} The unquoted key.
+   * @internal This is a private member.
+   */
+  private static _parseYamlKey(state: IYamlState, match: RegExpExecArray): string {
+    let key = match[3];
+
+    if (match[1] !== undefined) key = this._unescape(match[1]);
+    else if (match[2] !== undefined) key = match[2].replace(/''/g, '\'');
+
+    if (this._reservedKeys.has(key)) throw this._yamlError(state, `Key '${key}' is not allowed`);
+
+    return key;
+  }
+
+  /**
+   * Determines if a line of a YAML file is an item of a block sequence.
+   * @param {string} text The contents of the line.
+   * @returns {boolean} True if the line starts with a dash followed by a space.
+   * @internal This is a private member.
+   */
+  private static _isYamlSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  /**
+   * Strips the comment from a line of a YAML file, ignoring the `#` characters within quotes and plain scalars.
+   * @param {string} line The line.
+   * @returns {string} The line without its comment.
+   * @internal This is a private member.
+   */
+  private static _stripYamlComment(line: string): string {
+    let quote: string | undefined;
+
+    for (let i = 0; i < line.length; i++) {
+      const character = line[i];
+      const previous = line[i - 1];
+
+      if (quote !== undefined) {
+        if (character === '\\' && quote === '"') i++;
+        else if (character === quote) quote = undefined;
+      } else if ((character === '"' || character === '\'') && (previous === undefined || /[\s:[{,-]/.test(previous))) {
+        quote = character;
+      } else if (character === '#' && (previous === undefined || /\s/.test(previous))) {
+        return line.slice(0, i);
+      }
+    }
+
+    return line;
+  }
+
+  /**
+   * Creates an error at the current line of a YAML file.
+   * @param {IYamlState} state The position of the parser.
+   * @param {string} message The reason the file failed to parse.
+   * @returns {ConfigFileParseError} The error.
+   * @internal This is a private member.
+   */
+  private static _yamlError(state: IYamlState, message: string): ConfigFileParseError {
+    return new ConfigFileParseError(message, Math.min(state.index, state.lines.length - 1) + 1, state.fileName);
+  }
+
+  /**
+   * Parses the contents of a TOML file.
+   * @param {string} content The contents of the file.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {Record<string, ConfigFileValue>} The parsed tables.
+   * @internal This is a private member.
+   */
+  private static _parseToml(content: string, fileName?: string): Record<string, ConfigFileValue> {
+    const state: ITomlState = { content, position: 0, fileName };
+    const root: Record<string, ConfigFileValue> = {};
+    const headers = new Set<Record<string, ConfigFileValue>>();
+    let table = root;
+
+    for (;;) {
+      this._skipToml(state, true);
+      if (state.position >= content.length) break;
+
+      if (content[state.position] === '[') {
+        const isArray = content.startsWith('[[', state.position);
+        state.position += isArray ? 2 : 1;
+
+        const keys = this._parseTomlKey(state);
+        const closing = isArray ? ']]' : ']';
+
+        if (!content.startsWith(closing, state.position)) throw this._tomlError(state, `Expected '${closing}'`);
+        state.position += closing.length;
+
+        table = isArray ? this._appendTomlTable(state, root, keys) : this._getTomlTable(state, root, keys);
+
+        // A table can only be declared by one header, though it may be created by the headers of its sub-tables first.
+        if (!isArray && headers.has(table)) throw this._tomlError(state, `Duplicate table '${keys.join('.')}'`);
+        headers.add(table);
+      } else {
+        this._parseTomlEntry(state, table);
+      }
+
+      this._skipToml(state);
+
+      if (state.position < content.length && !/[\r\n]/.test(content[state.position]))
+        throw this._tomlError(state, 'Expected the end of the line');
+    }
+
+    return root;
+  }
+
+  /**
+   * Parses a `key = value` entry of a TOML file into the table.
+   * @param {ITomlState} state The position of the parser.
+   * @param {Record<string, ConfigFileValue>} table The table the entry belongs to.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
+   */
+  private static _parseTomlEntry(state: ITomlState, table: Record<string, ConfigFileValue>): void {
+    const keys = this._parseTomlKey(state);
+
+    if (state.content[state.position] !== '=') throw this._tomlError(state, 'Expected \'=\'');
+    state.position++;
+    this._skipToml(state);
+
+    const parent = this._getTomlTable(state, table, keys.slice(0, -1));
+    const key = keys[keys.length - 1];
+
+    if (Object.prototype.hasOwnProperty.call(parent, key))
+      throw this._tomlError(state, `Duplicate key '${keys.join('.')}'`);
+
+    parent[key] = this._parseTomlValue(state);
+  }
+
+  /**
+   * Parses a bare, quoted or dotted key, and skips the whitespace after it.
+   * @param {ITomlState} state The position of the parser.
+   * @returns {string[]} The parts of the key.
+   * @internal This is a private member.
+   */
+  private static _parseTomlKey(state: ITomlState): string[] {
+    const keys: string[] = [];
+
+    do {
+      this._skipToml(state);
+
+      const character = state.content[state.position];
+
+      if (character === '"' || character === '\'') {
+        keys.push(this._parseTomlString(state));
+      } else {
+        this._tomlBareKeyRegex.lastIndex = state.position;
+
+        const match = this._tomlBareKeyRegex.exec(state.content);
+        if (match === null) throw this._tomlError(state, 'Expected a key');
+
+        keys.push(match[0]);
+        state.position += match[0].length;
+      }
+
+      if (this._reservedKeys.has(keys[keys.length - 1]))
+        throw this._tomlError(state, `Key '${keys[keys.length - 1]}' is not allowed`);
+
+      this._skipToml(state);
+    } while (state.content[state.position] === '.' && ++state.position);
+
+    return keys;
+  }
+
+  /**
+   * Parses a string, array, inline table or scalar.
+   * @param {ITomlState} state The position of the parser.
+   * @returns {ConfigFileValue} The value.
+   * @internal This is a private member.
+   */
+  private static _parseTomlValue(state: ITomlState): ConfigFileValue {
+    const { content } = state;
+    const character = content[state.position];
+
+    if (character === '"' || character === '\'') return this._parseTomlString(state);
+
+    if (character === '[') {
+      const items: ConfigFileValue[] = [];
+      state.position++;
+
+      for (;;) {
+        this._skipToml(state, true);
+        if (content[state.position] === ']') break;
+
+        items.push(this._parseTomlValue(state));
+        this._skipToml(state, true);
+
+        if (content[state.position] === ',') state.position++;
+        else if (content[state.position] !== ']') throw this._tomlError(state, 'Expected \',\' or \']\'');
+      }
+
+      state.position++;
+
+      return items;
+    }
+
+    if (character === '{') {
+      const table: Record<string, ConfigFileValue> = {};
+      state.position++;
+      this._skipToml(state);
+
+      while (content[state.position] !== '}') {
+        this._parseTomlEntry(state, table);
+        this._skipToml(state);
+
+        if (content[state.position] === ',') state.position++;
+        else if (content[state.position] !== '}') throw this._tomlError(state, 'Expected \',\' or \'}\'');
+      }
+
+      state.position++;
+
+      return table;
+    }
+
+    this._tomlDateTimeRegex.lastIndex = state.position;
+
+    const token = this._tomlDateTimeRegex.exec(content)?.[0] ?? /^[^\s,\]}#]*/.exec(content.slice(state.position))[0];
+    if (token === '') throw this._tomlError(state, 'Expected a value');
+
+    const isDateTime = this._tomlDateTimeRegex.lastIndex === state.position + token.length;
+    if (!isDateTime && !this._tomlScalarRegex.test(token)) throw this._tomlError(state, `Invalid value '${token}'`);
+
+    state.position += token.length;
+
+    return isDateTime ? token : token.replace(/_/g, '');
+  }
+
+  /**
+   * Parses a basic, literal or multi-line string.
+   * @param {ITomlState} state The position of the parser, at the opening quote.
+   * @returns {string} The unescaped string.
+   * @internal This is a private member.
+   */
+  private static _parseTomlString(state: ITomlState): string {
+    const { content } = state;
+    const quote = content[state.position];
+    const isMultiline = content.startsWith(quote.repeat(3), state.position);
+    const delimiter = isMultiline ? quote.repeat(3) : quote;
+
+    let start = state.position + delimiter.length;
+
+    // A line break right after the opening delimiter of a multi-line string is trimmed.
+    if (isMultiline) start += /^\r?\n/.exec(content.slice(start))?.[0].length ?? 0;
+
+    for (let i = start; i < content.length; i++) {
+      if (quote === '"' && content[i] === '\\') {
+        i++;
+
+        continue;
+      }
+
+      if (!isMultiline && content[i] === '\n') break;
+      if (!content.startsWith(delimiter, i)) continue;
+
+      state.position = i + delimiter.length;
+
+      const raw = content.slice(start, i);
+      if (quote === '\'') return raw;
+
+      // A backslash at the end of a line of a multi-line string trims the line break and the whitespace after it.
+      return this._unescape(isMultiline ? raw.replace(/\\[ \t]*\r?\n\s*/g, '') : raw);
+    }
+
+    throw this._tomlError(state, `Unterminated ${delimiter} quoted string`);
+  }
+
+  /**
+   * Gets the table at the keys, creating the tables that do not exist yet. An array of tables resolves to its last table.
+   * @param {ITomlState} state The position of the parser, used in error messages.
+   * @param {Record<string, ConfigFileValue>} table The table to start from.
+   * @param {string[]} keys The keys of the table.
+   * @returns {Record<string, ConfigFileValue>} The table.
+   * @internal This is a private member.
+   */
+  private static _getTomlTable(
+    state: ITomlState,
+    table: Record<string, ConfigFileValue>,
+    keys: string[],
+  ): Record<string, ConfigFileValue> {
+    for (const key of keys) {
+      if (!Object.prototype.hasOwnProperty.call(table, key)) table[key] = {};
+
+      let next = table[key];
+      if (Array.isArray(next)) next = next[next.length - 1];
+
+      if (typeof next !== 'object' || next === null || Array.isArray(next))
+        throw this._tomlError(state, `'${key}' is not a table`);
+
+      table = next;
+    }
+
+    return table;
+  }
+
+  /**
+   * Appends a table to the array of tables at the keys.
+   * @param {ITomlState} state The position of the parser, used in error messages.
+   * @param {Record<string, ConfigFileValue>} root The root table.
+   * @param {string[]} keys The keys of the array of tables.
+   * @returns {Record<string, ConfigFileValue>} The appended table.
+   * @internal This is a private member.
+   */
+  private static _appendTomlTable(
+    state: ITomlState,
+    root: Record<string, ConfigFileValue>,
+    keys: string[],
+  ): Record<string, ConfigFileValue> {
+    const parent = this._getTomlTable(state, root, keys.slice(0, -1));
+    const key = keys[keys.length - 1];
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) parent[key] = [];
+
+    const tables = parent[key];
+
+    if (!Array.isArray(tables)) throw this._tomlError(state, `'${keys.join('.')}' is not an array of tables`);
+
+    const table: Record<string, ConfigFileValue> = {};
+    tables.push(table);
+
+    return table;
+  }
+
+  /**
+   * Skips spaces, tabs and comments, and optionally line breaks.
+   * @param {ITomlState} state The position of the parser.
+   * @param {boolean} [lineBreaks] If true, line breaks are skipped as well.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
+   */
+  private static _skipToml(state: ITomlState, lineBreaks = false): void {
+    const { content } = state;
+
+    while (state.position < content.length) {
+      const character = content[state.position];
+
+      if (character === ' ' || character === '\t' || (lineBreaks && (character === '\n' || character === '\r'))) {
+        state.position++;
+      } else if (character === '#') {
+        const end = content.indexOf('\n', state.position);
+
+        state.position = end === -1 ? content.length : end;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Creates an error at the current position of a TOML file.
+   * @param {ITomlState} state The position of the parser.
+   * @param {string} message The reason the file failed to parse.
+   * @returns {ConfigFileParseError} The error.
+   * @internal This is a private member.
+   */
+  private static _tomlError(state: ITomlState, message: string): ConfigFileParseError {
+    return new ConfigFileParseError(message, state.content.slice(0, state.position).split('\n').length, state.fileName);
+  }
+
+  /**
+   * Unescapes the escape sequences of a double quoted YAML scalar or a basic TOML string.
+   * @param {string} value The value, without the quotes.
+   * @returns {string} The unescaped value.
+   * @internal This is a private member.
+   */
+  private static _unescape(value: string): string {
+    return value.replace(/\\(x[\da-fA-F]{2}|u[\da-fA-F]{4}|U[\da-fA-F]{8}|.)/g, (sequence, escape: string) =>
+      escape.length > 1 ? String.fromCodePoint(parseInt(escape.slice(1), 16)) : this._escapes.get(escape) ?? escape,
+    );
+  }
+}
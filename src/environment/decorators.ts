@@ -0,0 +1,104 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: decorators.ts
+    Description: Decorators for declaring environment variables on environment classes.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type Environment from './index';
+import { ISchemaEntry, Schema } from './schema';
+
+/**
+ * The options of the `env` decorator, which are the same as a schema entry without the name.
+ */
+export type EnvDecoratorOptions<T = unknown> = Omit<ISchemaEntry<T>, 'name'>;
+
+/**
+ * @internal This is a private member.
+ */
+const declarations = new WeakMap<object, Map<string, ISchemaEntry<any>>>();
+
+/**
+ * Declares an environment variable on a property of an environment class.
+ *
+ * The property is replaced with a getter that calls `getOrDefault` with the name, default and type of the variable, so overridden
+ * variables are respected. The type is taken from the options, or inferred from the default value.
+ *
+ * @example
+ * ```typescript
+ * import environment, { env } from '@mfdlabs/environment';
+ *
+ * class MyEnvironment extends environment {
+ *   @env('PORT', { default: 8080, description: 'The port to listen on.' })
+ *   public port: number;
+ *
+ *   @env('ALLOWED_HOSTS', { type: 'array<string>', default: [] })
+ *   public allowedHosts: string[];
+ * }
+ * ```
+ * @param {string} name The name of the environment variable.
+ * @param {EnvDecoratorOptions<T>} [options] The options of the variable.
+ * @template T The type of the environment variable.
+ * @returns {Function} The property decorator.
+ */
+export function env<T = unknown>(
+  name: string,
+  options: EnvDecoratorOptions<T> = {},
+): (target: Environment, propertyKey: string) => void {
+  return (target: Environment, propertyKey: string) => {
+    let declared = declarations.get(target);
+
+    if (declared === undefined) {
+      declared = new Map();
+      declarations.set(target, declared);
+    }
+
+    declared.set(propertyKey, { ...options, name });
+
+    Object.defineProperty(target, propertyKey, {
+      get(this: Environment) {
+        return this.getOrDefault<T>(name, options.default, options.type, { array: options.array });
+      },
+      configurable: true,
+      enumerable: true,
+    });
+  };
+}
+
+/**
+ * Gets the variables declared with the `env` decorator on the given prototype and its ancestors.
+ *
+ * @param {object} prototype The prototype of the environment class.
+ * @returns {Schema} The declared variables, keyed by property name.
+ * @internal This function is only ingested internally.
+ */
+export function getDeclaredVariables(prototype: object): Schema {
+  const chain: object[] = [];
+
+  for (let current = prototype; current !== null; current = Object.getPrototypeOf(current)) chain.unshift(current);
+
+  const schema: Schema = {};
+
+  for (const current of chain) {
+    for (const [property, entry] of declarations.get(current) ?? []) schema[property] = entry;
+  }
+
+  return schema;
+}
@@ -0,0 +1,277 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: dotenv_parser.ts
+    Description: A parser for .env files.
+    Written by: Nikita Petko
+*/
+
+import DotEnvParseError from './errors/dotenv_parse_error';
+
+/**
+ * Represents a single variable parsed from a .env file.
+ */
+export interface IDotEnvEntry {
+  /**
+   * The name of the variable.
+   */
+  key: string;
+
+  /**
+   * The unescaped value of the variable.
+   */
+  value: string;
+
+  /**
+   * The 1-based line number the variable was declared on.
+   */
+  line: number;
+
+  /**
+   * The quote character the value was wrapped in, if any.
+   */
+  quote?: '"' | '\'' | '`';
+}
+
+/**
+ * A variable declared in a .env file, along with the text around its value.
+ *
+ * @internal This interface is only ingested internally.
+ */
+interface IDotEnvDeclaration {
+  /**
+   * The parsed variable.
+   */
+  entry: IDotEnvEntry;
+
+  /**
+   * The text before the value, such as the indentation, `export` and the key.
+   */
+  prefix: string;
+
+  /**
+   * The text after the value, such as an inline comment.
+   */
+  suffix: string;
+
+  /**
+   * The 1-based line number the declaration ends on.
+   */
+  endLine: number;
+}
+
+/**
+ * A parser for .env files.
+ *
+ * Supports the following syntax:
+ * - `KEY=value` and `export KEY=value`.
+ * - Full line comments (`# comment`) and inline comments after unquoted values (`KEY=value # comment`).
+ * - Double quoted values with the escapes `\n`, `\r`, `\t`, `\"` and `\\`.
+ * - Single quoted and backtick quoted values, which are taken literally.
+ * - Quoted values that span multiple lines.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class DotEnvParser {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _keyRegex = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*/;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _escapes = new Map([
+    ['n', '\n'],
+    ['r', '\r'],
+    ['t', '\t'],
+    ['"', '"'],
+    ['\\', '\\'],
+  ]);
+
+  /**
+   * Parses the contents of a .env file.
+   *
+   * @example
+   * ```typescript
+   * import DotEnvParser from '@lib/environment/dotenv_parser';
+   *
+   * DotEnvParser.parse('FOO=bar\nexport BAZ="multi\nline"'); // Map { 'FOO' => { value: 'bar', ... }, 'BAZ' => { value: 'multi\nline', ... } }
+   * ```
+   * @param {string} content The contents of the file.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {Map<string, IDotEnvEntry>} The parsed variables, later declarations replace earlier ones.
+   */
+  public static parse(content: string, fileName?: string): Map<string, IDotEnvEntry> {
+    const entries = new Map<string, IDotEnvEntry>();
+
+    for (const { entry } of this._scan(content.replace(/^\uFEFF/, '').split(/\r?\n/), fileName)) {
+      entries.set(entry.key, entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Replaces the values of the variables declared in the contents of a .env file, keeping the comments, the layout and the quotes of
+   * the values where possible.
+   *
+   * @example
+   * ```typescript
+   * import DotEnvParser from '@lib/environment/dotenv_parser';
+   *
+   * DotEnvParser.replaceValues('# The port\nPORT=80 # http', (entry) => String(Number(entry.value) + 1)); // '# The port\nPORT=81 # http'
+   * ```
+   * @param {string} content The contents of the file.
+   * @param {Function} replacer Returns the new value of a variable, or undefined to keep it as it is.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {string} The contents with the values replaced.
+   * @throws {DotEnvParseError} If the contents cannot be parsed.
+   */
+  public static replaceValues(
+    content: string,
+    replacer: (entry: IDotEnvEntry) => string | undefined,
+    fileName?: string,
+  ): string {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    for (const { entry, prefix, suffix, endLine } of this._scan(lines, fileName).reverse()) {
+      const value = replacer(entry);
+      if (value === undefined) continue;
+
+      lines.splice(entry.line - 1, endLine - entry.line + 1, prefix + this._quote(value, entry.quote) + suffix);
+    }
+
+    return lines.join(content.includes('\r\n') ? '\r\n' : '\n');
+  }
+
+  /**
+   * Scans the lines of a .env file for declarations.
+   * @param {string[]} lines The lines of the file.
+   * @param {string} [fileName] The name of the file, used in error messages.
+   * @returns {IDotEnvDeclaration[]} The declarations, in the order they appear in.
+   * @internal This is a private member.
+   */
+  private static _scan(lines: string[], fileName?: string): IDotEnvDeclaration[] {
+    const declarations: IDotEnvDeclaration[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+      const lineNumber = index + 1;
+      const line = lines[index].trimStart();
+
+      if (line.trim() === '' || line.startsWith('#')) continue;
+
+      const match = this._keyRegex.exec(line);
+      if (match === null) throw new DotEnvParseError(`Invalid declaration '${line.trim()}'`, lineNumber, fileName);
+
+      const key = match[1];
+      const prefix = lines[index].substring(0, lines[index].length - line.length + match[0].length);
+      let rest = line.substring(match[0].length);
+      const quote = rest[0];
+
+      if (quote !== '"' && quote !== '\'' && quote !== '`') {
+        const comment = rest.search(/\s#/);
+
+        declarations.push({
+          entry: { key, value: (comment === -1 ? rest : rest.substring(0, comment)).trim(), line: lineNumber },
+          prefix,
+          suffix: comment === -1 ? '' : rest.substring(comment),
+          endLine: lineNumber,
+        });
+
+        continue;
+      }
+
+      // Keep consuming lines until the closing quote is found.
+      let closing = this._findClosingQuote(rest, quote);
+      while (closing === -1) {
+        if (++index >= lines.length)
+          throw new DotEnvParseError(`Unterminated ${quote} quoted value for '${key}'`, lineNumber, fileName);
+
+        rest += '\n' + lines[index];
+        closing = this._findClosingQuote(rest, quote);
+      }
+
+      const trailing = rest.substring(closing + 1).trim();
+      if (trailing !== '' && !trailing.startsWith('#'))
+        throw new DotEnvParseError(`Unexpected characters after quoted value for '${key}'`, index + 1, fileName);
+
+      const raw = rest.substring(1, closing);
+
+      declarations.push({
+        entry: {
+          key,
+          value: quote === '"' ? this._unescape(raw) : raw,
+          line: lineNumber,
+          quote,
+        },
+        prefix,
+        suffix: rest.substring(closing + 1),
+        endLine: index + 1,
+      });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Finds the index of the quote that closes the value.
+   * @param {string} value The value, starting with the opening quote.
+   * @param {string} quote The quote character.
+   * @returns {number} The index of the closing quote, or -1 if there is none.
+   * @internal This is a private member.
+   */
+  private static _findClosingQuote(value: string, quote: string): number {
+    for (let i = 1; i < value.length; i++) {
+      if (quote === '"' && value[i] === '\\') {
+        i++;
+
+        continue;
+      }
+
+      if (value[i] === quote) return i;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Unescapes the escape sequences in a double quoted value.
+   * @param {string} value The double quoted value, without the quotes.
+   * @returns {string} The unescaped value.
+   * @internal This is a private member.
+   */
+  private static _unescape(value: string): string {
+    return value.replace(/\\(.)/g, (sequence, character) => this._escapes.get(character) ?? sequence);
+  }
+
+  /**
+   * Quotes a value so that it parses back to itself, preferring the quote it was wrapped in before.
+   * @param {string} value The value.
+   * @param {string} [quote] The quote character the previous value was wrapped in, if any.
+   * @returns {string} The quoted value.
+   * @internal This is a private member.
+   */
+  private static _quote(value: string, quote?: IDotEnvEntry['quote']): string {
+    if ((quote === '\'' || quote === '`') && !value.includes(quote)) return quote + value + quote;
+    if (quote === undefined && !/^['"`\s]|\s$|\s#|[\r\n]/.test(value)) return value;
+
+    const escape = (character: string) => [...this._escapes].find(([, unescaped]) => unescaped === character)[0];
+
+    return '"' + value.replace(/[\\"\r\n]/g, (character) => '\\' + escape(character)) + '"';
+  }
+}
@@ -0,0 +1,294 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: env_crypto.ts
+    Description: Encrypts and decrypts the values of environment variables and .env files with AES-256-GCM.
+    Written by: Nikita Petko
+*/
+
+import dotEnvParser from './dotenv_parser';
+import DecryptionError from './errors/decryption_error';
+
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+/**
+ * An encryption key, which is 32 bytes either as a buffer or encoded as base64 or hex.
+ */
+export type EncryptionKey = string | Buffer;
+
+/**
+ * Options for encrypting a .env file.
+ */
+export interface IEncryptFileOptions {
+  /**
+   * Encrypts the file as a whole instead of the value of each variable, which hides the names of the variables as well. Defaults to
+   * false.
+   */
+  whole?: boolean;
+
+  /**
+   * The names of the variables to encrypt, defaults to every variable. Ignored when encrypting the file as a whole.
+   */
+  variables?: string[];
+
+  /**
+   * The path of the file to write to, defaults to the file itself.
+   */
+  output?: string;
+}
+
+/**
+ * Options for decrypting a .env file.
+ */
+export interface IDecryptFileOptions {
+  /**
+   * The path of the file to write to, defaults to the file itself.
+   */
+  output?: string;
+}
+
+/**
+ * A helper that encrypts and decrypts values with AES-256-GCM.
+ *
+ * An encrypted value is written as `enc:v1:<base64>`, where the base64 encoded data is the 12 byte IV, the 16 byte authentication
+ * tag and the ciphertext. A .env file can either have some of its values encrypted, or be encrypted as a whole, in which case the
+ * file only holds a single encrypted value.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class EnvCrypto {
+  /**
+   * The prefix of encrypted values.
+   */
+  public static readonly prefix = 'enc:v1:';
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _algorithm = 'aes-256-gcm';
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _ivLength = 12;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _tagLength = 16;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _encryptedRegex = /^enc:v1:[A-Za-z0-9+/]+={0,2}$/;
+
+  /**
+   * Generates a random key.
+   * @returns {string} The key, encoded as base64.
+   */
+  public static generateKey(): string {
+    return crypto.randomBytes(32).toString('base64');
+  }
+
+  /**
+   * Determines if a value is encrypted.
+   * @param {string} value The value.
+   * @returns {boolean} True if the value starts with `enc:v1:`, followed by base64 encoded data.
+   */
+  public static isEncrypted(value: string): boolean {
+    return this._encryptedRegex.test(value);
+  }
+
+  /**
+   * Determines if the contents of a .env file are encrypted as a whole.
+   * @param {string} content The contents of the file.
+   * @returns {boolean} True if the file only holds a single encrypted value.
+   */
+  public static isEncryptedFile(content: string): boolean {
+    return this.isEncrypted(content.trim());
+  }
+
+  /**
+   * Encrypts a value.
+   *
+   * @example
+   * ```typescript
+   * import envCrypto from '@lib/environment/env_crypto';
+   *
+   * const key = envCrypto.generateKey();
+   *
+   * envCrypto.decrypt(envCrypto.encrypt('hunter2', key), key); // 'hunter2'
+   * ```
+   * @param {string} value The value.
+   * @param {EncryptionKey} key The key.
+   * @returns {string} The encrypted value, starting with `enc:v1:`.
+   * @throws {TypeError} If the key is not 32 bytes.
+   */
+  public static encrypt(value: string, key: EncryptionKey): string {
+    const iv = crypto.randomBytes(this._ivLength);
+    const cipher = crypto.createCipheriv(this._algorithm, this._parseKey(key), iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+    return this.prefix + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  /**
+   * Decrypts a value.
+   * @param {string} value The encrypted value, starting with `enc:v1:`.
+   * @param {EncryptionKey} key The key.
+   * @returns {string} The decrypted value.
+   * @throws {TypeError} If the value is not encrypted or the key is not 32 bytes.
+   * @throws {Error} If the key is wrong or the encrypted value was modified.
+   */
+  public static decrypt(value: string, key: EncryptionKey): string {
+    if (!this.isEncrypted(value))
+      throw new TypeError(`The value is not encrypted, as it does not start with '${this.prefix}'`);
+
+    const data = Buffer.from(value.substring(this.prefix.length), 'base64');
+    if (data.length < this._ivLength + this._tagLength) throw new TypeError('The encrypted value is truncated');
+
+    const decipher = crypto.createDecipheriv(this._algorithm, this._parseKey(key), data.subarray(0, this._ivLength));
+    decipher.setAuthTag(data.subarray(this._ivLength, this._ivLength + this._tagLength));
+
+    const ciphertext = data.subarray(this._ivLength + this._tagLength);
+
+    try {
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('The key is wrong or the encrypted value was modified');
+    }
+  }
+
+  /**
+   * Encrypts the values of a .env file, or the file as a whole. Values that are already encrypted are kept as they are, as is a file
+   * that is already encrypted as a whole.
+   * @param {string} fileName The path of the file.
+   * @param {EncryptionKey} key The key.
+   * @param {IEncryptFileOptions} [options] The options for encrypting the file.
+   * @returns {void} Nothing.
+   * @throws {DotEnvParseError} If the file cannot be parsed.
+   */
+  public static encryptFile(fileName: string, key: EncryptionKey, options?: IEncryptFileOptions): void {
+    const content = fs.readFileSync(fileName, 'utf8');
+    let encrypted = content;
+
+    if (this.isEncryptedFile(content)) {
+      // The file is already encrypted as a whole, so there is nothing to encrypt.
+    } else if (options?.whole) {
+      // Make sure the file can be read back once it is decrypted.
+      dotEnvParser.parse(content, fileName);
+
+      encrypted = this.encrypt(content, key) + '\n';
+    } else {
+      encrypted = dotEnvParser.replaceValues(
+        content,
+        (entry) =>
+          this.isEncrypted(entry.value) || (options?.variables !== undefined && !options.variables.includes(entry.key))
+            ? undefined
+            : this.encrypt(entry.value, key),
+        fileName,
+      );
+    }
+
+    fs.writeFileSync(options?.output ?? fileName, encrypted);
+  }
+
+  /**
+   * Decrypts a .env file, both when it is encrypted as a whole and the values within it that are encrypted.
+   * @param {string} fileName The path of the file.
+   * @param {EncryptionKey} key The key.
+   * @param {IDecryptFileOptions} [options] The options for decrypting the file.
+   * @returns {void} Nothing.
+   * @throws {DecryptionError} If the file or any of its values cannot be decrypted, in which case nothing is written.
+   */
+  public static decryptFile(fileName: string, key: EncryptionKey, options?: IDecryptFileOptions): void {
+    let content = fs.readFileSync(fileName, 'utf8');
+    if (this.isEncryptedFile(content)) content = this.decryptWith(content.trim(), key, fileName);
+
+    const decrypted = dotEnvParser.replaceValues(
+      content,
+      (entry) => (this.isEncrypted(entry.value) ? this.decryptWith(entry.value, key, entry.key) : undefined),
+      fileName,
+    );
+
+    fs.writeFileSync(options?.output ?? fileName, decrypted);
+  }
+
+  /**
+   * Re-encrypts a .env file in place with a new key. A file encrypted as a whole stays encrypted as a whole, the values that are
+   * encrypted are encrypted with the new key and the values that are not stay as they are.
+   * @param {string} fileName The path of the file.
+   * @param {EncryptionKey} oldKey The key the file is encrypted with.
+   * @param {EncryptionKey} newKey The key to encrypt the file with.
+   * @returns {void} Nothing.
+   * @throws {DecryptionError} If the file or any of its values cannot be decrypted with the old key, in which case nothing is written.
+   */
+  public static rotateFile(fileName: string, oldKey: EncryptionKey, newKey: EncryptionKey): void {
+    const content = fs.readFileSync(fileName, 'utf8');
+    const rotate = (values: string) =>
+      dotEnvParser.replaceValues(
+        values,
+        (entry) =>
+          this.isEncrypted(entry.value)
+            ? this.encrypt(this.decryptWith(entry.value, oldKey, entry.key), newKey)
+            : undefined,
+        fileName,
+      );
+
+    const rotated = this.isEncryptedFile(content)
+      ? this.encrypt(rotate(this.decryptWith(content.trim(), oldKey, fileName)), newKey) + '\n'
+      : rotate(content);
+
+    fs.writeFileSync(fileName, rotated);
+  }
+
+  /**
+   * Decrypts a value, naming where it came from if it cannot be decrypted.
+   * @param {string} value The encrypted value.
+   * @param {EncryptionKey} key The key.
+   * @param {string} source The name of the variable or the path of the file that was encrypted.
+   * @returns {string} The decrypted value.
+   * @throws {DecryptionError} If the value cannot be decrypted.
+   */
+  public static decryptWith(value: string, key: EncryptionKey, source: string): string {
+    try {
+      return this.decrypt(value, key);
+    } catch (error) {
+      throw new DecryptionError(source, error);
+    }
+  }
+
+  /**
+   * Parses a key.
+   * @param {EncryptionKey} key The key, as a buffer or encoded as base64 or hex.
+   * @returns {Buffer} The key.
+   * @throws {TypeError} If the key is not 32 bytes.
+   * @internal This is a private member.
+   */
+  private static _parseKey(key: EncryptionKey): Buffer {
+    let parsed: Buffer;
+
+    if (Buffer.isBuffer(key)) parsed = key;
+    else if (/^[0-9a-f]{64}$/i.test(key.trim())) parsed = Buffer.from(key.trim(), 'hex');
+    else if (/^[A-Za-z0-9+/]+={0,2}$/.test(key.trim())) parsed = Buffer.from(key.trim(), 'base64');
+
+    if (parsed?.length !== 32) throw new TypeError('The encryption key must be 32 bytes, encoded as base64 or hex');
+
+    return parsed;
+  }
+}
@@ -0,0 +1,50 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: config_file_parse_error.ts
+    Description: An error thrown when a JSON, YAML or TOML configuration file cannot be parsed.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when a JSON, YAML or TOML configuration file cannot be parsed.
+ */
+export default class ConfigFileParseError extends Error {
+  /**
+   * The name of the file that failed to parse, if known.
+   */
+  public readonly fileName?: string;
+
+  /**
+   * The 1-based line number the error was found on.
+   */
+  public readonly line: number;
+
+  /**
+   * Constructs a new ConfigFileParseError.
+   * @param {string} message The reason the file failed to parse.
+   * @param {number} line The 1-based line number the error was found on.
+   * @param {string} [fileName] The name of the file that failed to parse.
+   */
+  public constructor(message: string, line: number, fileName?: string) {
+    super(`${fileName ?? '<input>'}:${line}: ${message}`);
+
+    this.name = 'ConfigFileParseError';
+    this.line = line;
+    this.fileName = fileName;
+  }
+}
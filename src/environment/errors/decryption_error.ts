@@ -0,0 +1,50 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: decryption_error.ts
+    Description: An error thrown when an encrypted value or file cannot be decrypted.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when an encrypted value or file cannot be decrypted, such as when the key is missing or wrong, or the encrypted
+ * text was modified.
+ */
+export default class DecryptionError extends Error {
+  /**
+   * The name of the variable or the path of the file that was encrypted.
+   */
+  public readonly source: string;
+
+  /**
+   * The underlying error.
+   */
+  public readonly cause: unknown;
+
+  /**
+   * Constructs a new DecryptionError.
+   * @param {string} source The name of the variable or the path of the file that was encrypted.
+   * @param {unknown} cause The underlying error.
+   */
+  public constructor(source: string, cause: unknown) {
+    super(`Failed to decrypt '${source}'` + (cause instanceof Error ? `: ${cause.message}` : ''));
+
+    this.name = 'DecryptionError';
+    this.source = source;
+    this.cause = cause;
+  }
+}
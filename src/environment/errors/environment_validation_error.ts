@@ -0,0 +1,62 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_validation_error.ts
+    Description: An error thrown when an environment fails to validate against a schema.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Represents a single problem found while validating an environment.
+ */
+export interface IEnvironmentValidationIssue {
+  /**
+   * The name of the environment variable the problem was found on.
+   */
+  variable: string;
+
+  /**
+   * A description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * An error thrown when an environment fails to validate against a schema.
+ *
+ * Contains every problem that was found, not just the first one.
+ */
+export default class EnvironmentValidationError extends Error {
+  /**
+   * The problems that were found.
+   */
+  public readonly issues: IEnvironmentValidationIssue[];
+
+  /**
+   * Constructs a new EnvironmentValidationError.
+   * @param {IEnvironmentValidationIssue[]} issues The problems that were found.
+   */
+  public constructor(issues: IEnvironmentValidationIssue[]) {
+    super(
+      `Environment validation failed with ${issues.length} issue(s):\n` +
+        issues.map((issue) => `  - ${issue.variable}: ${issue.message}`).join('\n'),
+    );
+
+    this.name = 'EnvironmentValidationError';
+    this.issues = issues;
+  }
+}
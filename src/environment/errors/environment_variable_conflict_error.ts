@@ -0,0 +1,49 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_variable_conflict_error.ts
+    Description: An error thrown when a variable and its aliases or deprecated names are set to different values.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when a variable and its aliases or deprecated names are set to different values.
+ */
+export default class EnvironmentVariableConflictError extends Error {
+  /**
+   * The name of the environment variable.
+   */
+  public readonly variable: string;
+
+  /**
+   * The names that are set to different values, in lookup order.
+   */
+  public readonly names: string[];
+
+  /**
+   * Constructs a new EnvironmentVariableConflictError.
+   * @param {string} variable The name of the environment variable.
+   * @param {string[]} names The names that are set to different values, in lookup order.
+   */
+  public constructor(variable: string, names: string[]) {
+    super(`${variable} is set to different values by ${names.join(', ')}, unset all but one of them`);
+
+    this.name = 'EnvironmentVariableConflictError';
+    this.variable = variable;
+    this.names = names;
+  }
+}
@@ -0,0 +1,42 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_variable_cycle_error.ts
+    Description: An error thrown when environment variables reference each other in a loop.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when environment variables reference each other in a loop.
+ */
+export default class EnvironmentVariableCycleError extends Error {
+  /**
+   * The chain of variables that forms the loop, the first and last entries are the same variable.
+   */
+  public readonly chain: string[];
+
+  /**
+   * Constructs a new EnvironmentVariableCycleError.
+   * @param {string[]} chain The chain of variables that forms the loop.
+   */
+  public constructor(chain: string[]) {
+    super(`Circular reference detected: ${chain.join(' -> ')}`);
+
+    this.name = 'EnvironmentVariableCycleError';
+    this.chain = chain;
+  }
+}
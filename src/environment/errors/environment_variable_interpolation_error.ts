@@ -0,0 +1,44 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_variable_interpolation_error.ts
+    Description: An error thrown when the value of an environment variable cannot be interpolated.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when the value of an environment variable cannot be interpolated, either because it is malformed or
+ * because it references a variable with `${VAR:?error}` that is not set.
+ */
+export default class EnvironmentVariableInterpolationError extends Error {
+  /**
+   * The variable whose value was being interpolated.
+   */
+  public readonly variable: string;
+
+  /**
+   * Constructs a new EnvironmentVariableInterpolationError.
+   * @param {string} variable The variable whose value was being interpolated.
+   * @param {string} message The reason the value could not be interpolated.
+   */
+  public constructor(variable: string, message: string) {
+    super(`${variable}: ${message}`);
+
+    this.name = 'EnvironmentVariableInterpolationError';
+    this.variable = variable;
+  }
+}
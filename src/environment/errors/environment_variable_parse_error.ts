@@ -0,0 +1,63 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_variable_parse_error.ts
+    Description: An error thrown when the value of an environment variable cannot be converted to its type in strict mode.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when the value of an environment variable cannot be converted to its type in strict mode.
+ */
+export default class EnvironmentVariableParseError extends Error {
+  /**
+   * The name of the environment variable.
+   */
+  public readonly variable: string;
+
+  /**
+   * The raw value of the environment variable, or undefined if it is a secret.
+   */
+  public readonly rawValue: string | undefined;
+
+  /**
+   * The type the value was being converted to.
+   */
+  public readonly expectedType: string;
+
+  /**
+   * The underlying error, or undefined if the variable is a secret, as it includes the value.
+   */
+  public readonly cause: unknown;
+
+  /**
+   * Constructs a new EnvironmentVariableParseError.
+   * @param {string} variable The name of the environment variable.
+   * @param {string | undefined} rawValue The raw value of the environment variable, or undefined if it is a secret.
+   * @param {string} expectedType The type the value was being converted to.
+   * @param {unknown} cause The underlying error, or undefined if the variable is a secret.
+   */
+  public constructor(variable: string, rawValue: string | undefined, expectedType: string, cause: unknown) {
+    super(`Failed to parse ${variable} as ${expectedType}` + (cause instanceof Error ? `: ${cause.message}` : ''));
+
+    this.name = 'EnvironmentVariableParseError';
+    this.variable = variable;
+    this.rawValue = rawValue;
+    this.expectedType = expectedType;
+    this.cause = cause;
+  }
+}
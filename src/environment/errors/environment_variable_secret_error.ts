@@ -0,0 +1,59 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_variable_secret_error.ts
+    Description: An error thrown when the secret file of an environment variable cannot be read.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when the secret file of an environment variable cannot be read.
+ */
+export default class EnvironmentVariableSecretError extends Error {
+  /**
+   * The name of the environment variable.
+   */
+  public readonly variable: string;
+
+  /**
+   * The path of the secret file.
+   */
+  public readonly fileName: string;
+
+  /**
+   * The underlying error.
+   */
+  public readonly cause: unknown;
+
+  /**
+   * Constructs a new EnvironmentVariableSecretError.
+   * @param {string} variable The name of the environment variable.
+   * @param {string} fileName The path of the secret file.
+   * @param {unknown} cause The underlying error.
+   */
+  public constructor(variable: string, fileName: string, cause: unknown) {
+    super(
+      `Failed to read the secret file '${fileName}' of ${variable}` +
+        (cause instanceof Error ? `: ${cause.message}` : ''),
+    );
+
+    this.name = 'EnvironmentVariableSecretError';
+    this.variable = variable;
+    this.fileName = fileName;
+    this.cause = cause;
+  }
+}
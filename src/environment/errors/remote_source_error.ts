@@ -0,0 +1,49 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: remote_source_error.ts
+    Description: An error thrown when the values of a remote source cannot be fetched.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown when the values of a remote source cannot be fetched.
+ */
+export default class RemoteSourceError extends Error {
+  /**
+   * The name of the source.
+   */
+  public readonly source: string;
+
+  /**
+   * The underlying error.
+   */
+  public readonly cause: unknown;
+
+  /**
+   * Constructs a new RemoteSourceError.
+   * @param {string} source The name of the source.
+   * @param {unknown} cause The underlying error.
+   */
+  public constructor(source: string, cause: unknown) {
+    super(`Failed to fetch the values of '${source}'` + (cause instanceof Error ? `: ${cause.message}` : ''));
+
+    this.name = 'RemoteSourceError';
+    this.source = source;
+    this.cause = cause;
+  }
+}
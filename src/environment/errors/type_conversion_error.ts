@@ -0,0 +1,59 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: type_conversion_error.ts
+    Description: An error thrown by the type converters when a value cannot be converted in strict mode.
+    Written by: Nikita Petko
+*/
+
+/**
+ * An error thrown by the type converters when a value cannot be converted in strict mode.
+ */
+export default class TypeConversionError extends Error {
+  /**
+   * The value that could not be converted.
+   */
+  public readonly value: unknown;
+
+  /**
+   * The type the value was being converted to.
+   */
+  public readonly expectedType: string;
+
+  /**
+   * The underlying error, if any.
+   */
+  public readonly cause?: unknown;
+
+  /**
+   * Constructs a new TypeConversionError.
+   * @param {unknown} value The value that could not be converted.
+   * @param {string} expectedType The type the value was being converted to.
+   * @param {unknown} [cause] The underlying error, if any.
+   */
+  public constructor(value: unknown, expectedType: string, cause?: unknown) {
+    super(
+      `Cannot convert ${JSON.stringify(value) ?? String(value)} to ${expectedType}` +
+        (cause instanceof Error ? `: ${cause.message}` : ''),
+    );
+
+    this.name = 'TypeConversionError';
+    this.value = value;
+    this.expectedType = expectedType;
+    this.cause = cause;
+  }
+}
@@ -20,159 +20,2579 @@
     Written by: Nikita Petko
 */
 
-import typeConverters from './type_converters';
+import typeConverters, { IArrayParseOptions, ICidrRange, ICustomTypeConverter } from './type_converters';
+import dotEnvParser, { IDotEnvEntry } from './dotenv_parser';
+import interpolator, { IRawValue } from './interpolator';
+import schemaValidator, { Schema, SchemaValues } from './schema';
+import { getDeclaredVariables } from './decorators';
+import schemaGenerators, { IJsonSchema } from './schema_generators';
+import runtimeDetector, { IRuntimeDetectionOptions, IRuntimeInfo } from './runtime_detector';
+import platformDetector, { ICIProvider, ICloudPlatform, IPlatformDetectionOptions } from './platform_detector';
+import Secret from './secret';
+import { IRule } from './rules';
+import StageDefaults, { Stage, StageDefaultValues } from './stage_defaults';
+import envCrypto, { EncryptionKey, IDecryptFileOptions, IEncryptFileOptions } from './env_crypto';
+import { IAsyncEnvironmentProvider, IEnvironmentProvider, IProviderStatus } from './providers/environment_provider';
+import ProcessEnvProvider from './providers/process_env_provider';
+import EnvFileProvider from './providers/env_file_provider';
+import DecryptionError from './errors/decryption_error';
+import EnvironmentValidationError, { IEnvironmentValidationIssue } from './errors/environment_validation_error';
+import EnvironmentVariableConflictError from './errors/environment_variable_conflict_error';
+import EnvironmentVariableParseError from './errors/environment_variable_parse_error';
+import EnvironmentVariableSecretError from './errors/environment_variable_secret_error';
+import TypeConversionError from './errors/type_conversion_error';
 
 import * as fs from 'fs';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
 
 /**
  * A method for getting the default environment variable if it is not set.
  */
-export type DefaultValueGetter<T> = T | (() => T);
+export type DefaultValueGetter<T> = T | (() => T) | StageDefaults<T>;
+
+/**
+ * A map of every type of environment variable to the type its value is deserialized to.
+ *
+ * Custom types registered with `Environment.registerType` can be added to it with module augmentation:
+ *
+ * ```typescript
+ * declare module '@mfdlabs/environment' {
+ *   interface IEnvironmentVariableTypeMap {
+ *     url: URL;
+ *   }
+ * }
+ * ```
+ */
+export interface IEnvironmentVariableTypeMap {
+  boolean: boolean;
+  number: number;
+  bigint: bigint;
+  object: object;
+  regexp: RegExp;
+  string: string;
+  duration: number;
+  bytes: number;
+  url: URL;
+  port: number;
+  date: Date;
+  ip: string;
+  cidr: ICidrRange;
+}
 
 /**
  * A type that represents all the possible types of environment variables. Use this if you want your environment variable to be of a specific type or if you want the default to
  * be null or undefined.
  */
-export type EnvironmentVariableType = 'boolean' | 'number' | 'bigint' | 'object' | 'regexp' | 'string';
+export type EnvironmentVariableType = keyof IEnvironmentVariableTypeMap | `enum<${string}>`;
+
+/**
+ * A type that represents all the possible array types of environment variables. Use this if you want your environment variable to be of a specific array type or if you want the
+ * default to be null or undefined.
+ */
+export type EnvironmentVariableArrayType = `array<${EnvironmentVariableType}>`;
+
+/**
+ * A type that represents all the possible map types of environment variables, written as `map<K,V>` and parsed from values like
+ * `a:1,b:2`.
+ */
+export type EnvironmentVariableMapType = `map<${EnvironmentVariableType},${EnvironmentVariableType}>`;
+
+/**
+ * Splits the allowed values of an `enum<...>` type into a union.
+ */
+type EnumValues<S extends string> = S extends `${infer Head}|${infer Rest}` ? Head | EnumValues<Rest> : S;
+
+/**
+ * A type that represents the deserialized value of an environment variable of the given type.
+ */
+export type EnvironmentVariableValue<K extends string> = K extends `array<${infer E}>`
+  ? EnvironmentVariableValue<E>[]
+  : K extends `map<${infer MK},${infer MV}>`
+  ? Map<EnvironmentVariableValue<MK>, EnvironmentVariableValue<MV>>
+  : K extends `enum<${infer V}>`
+  ? EnumValues<V>
+  : K extends keyof IEnvironmentVariableTypeMap
+  ? IEnvironmentVariableTypeMap[K]
+  : unknown;
+
+/**
+ * Options for constructing an environment.
+ */
+export interface IEnvironmentOptions {
+  /**
+   * Expands `${VAR}` style references within the values of environment variables. Defaults to true, which only expands the values
+   * of .env files, as the values of `process.env` were already expanded by the shell or orchestrator. Use `all` to expand the
+   * values of `process.env` and the other providers as well.
+   */
+  interpolate?: boolean | 'all';
+
+  /**
+   * Throws an `EnvironmentVariableParseError` when a value cannot be converted to its type, instead of returning NaN or falling back
+   * to the default value. Defaults to false, where a value that a named type such as `port` or `url` rejects reads as the default.
+   */
+  strict?: boolean;
+
+  /**
+   * The options for splitting the values of array and map environment variables.
+   */
+  array?: IArrayParseOptions;
+
+  /**
+   * The options for reading environment variables from secret files.
+   */
+  secrets?: ISecretOptions;
+
+  /**
+   * The patterns of the names of variables whose values are masked in dumps, where `*` matches any characters. Matching is case
+   * insensitive, and defaults to `*_PASSWORD`, `*_TOKEN`, `*_KEY` and `*_SECRET`.
+   */
+  secretPatterns?: (string | RegExp)[];
+
+  /**
+   * The options for determining the deployment stage.
+   */
+  stage?: IStageOptions;
+
+  /**
+   * The providers the variables are read from, where the first provider that has a variable wins. Defaults to `process.env` only.
+   *
+   * The variables loaded with `loadEnvFiles` are read after the providers, or before them when `overrideProcessEnv` is set, and
+   * secret files are read last.
+   */
+  providers?: IEnvironmentProvider[];
+
+  /**
+   * The options for decrypting encrypted values and .env files.
+   */
+  encryption?: IEncryptionOptions;
+
+  /**
+   * The aliases and deprecated names of variables, and how to report reading them.
+   */
+  aliases?: IAliasOptions;
+}
+
+/**
+ * The other names a variable can be set by.
+ *
+ * A variable is looked up by its own name first, then by its aliases in order and then by its deprecated names in order.
+ */
+export interface IVariableAliases {
+  /**
+   * Other names the variable can be set by.
+   */
+  aliases?: string[];
+
+  /**
+   * Old names of the variable, which emit a deprecation warning the first time the variable is read through them.
+   */
+  deprecated?: string[];
+}
+
+/**
+ * Options for the aliases and deprecated names of variables.
+ */
+export interface IAliasOptions {
+  /**
+   * The aliases and deprecated names of variables, keyed by the name of the variable.
+   */
+  variables?: Record<string, IVariableAliases>;
+
+  /**
+   * What to do when more than one of the names of a variable is set and their values differ. `error` throws an
+   * `EnvironmentVariableConflictError`, and `warn` emits a warning and uses the value of the first name in lookup order. Defaults to
+   * `error`.
+   */
+  conflicts?: 'error' | 'warn';
+
+  /**
+   * Reports a warning, such as a variable being read through a deprecated name. Every warning is only reported once. Defaults to
+   * `process.emitWarning`, as a `DeprecationWarning` for deprecated names.
+   */
+  onWarning?: (message: string, type: 'deprecated' | 'conflict') => void;
+}
+
+/**
+ * Options for determining the deployment stage.
+ */
+export interface IStageOptions {
+  /**
+   * The variables the stage is read from, the first that is set wins. Defaults to `NODE_ENV`.
+   */
+  variables?: string[];
+
+  /**
+   * Additional aliases of stages, keyed by the lower case alias. `dev` and `develop` are already aliases of `development`, `prod` of
+   * `production`, `stage` and `stg` of `staging`, and `testing` of `test`.
+   */
+  aliases?: Record<string, Stage>;
+
+  /**
+   * The stage when none of the variables are set, defaults to `development`.
+   */
+  default?: Stage;
+}
+
+/**
+ * Options for reading environment variables from secret files, the way Docker and Kubernetes deliver secrets.
+ *
+ * Secret files are only read when the variable is not set by a provider or the loaded .env files, their trailing newlines are
+ * trimmed and their values are never interpolated.
+ */
+export interface ISecretOptions {
+  /**
+   * Reads the file named by `<NAME>_FILE` when `<NAME>` is not set, defaults to true.
+   */
+  fileSuffix?: boolean;
+
+  /**
+   * Looks for a file named `<NAME>`, or `<name>` in lower case, in `/run/secrets` where Docker mounts secrets. Defaults to false.
+   */
+  dockerSecrets?: boolean;
+
+  /**
+   * Other directories to look for a file named `<NAME>`, or `<name>` in lower case, such as the mount path of a Kubernetes secret.
+   */
+  directories?: string[];
+}
+
+/**
+ * Options for decrypting the values that are encrypted with `encryptValue` or `encryptFile`.
+ *
+ * The key is read from the first of these that is set: `key`, `keyFile`, the variable named by `keyVariable`, the file named by
+ * `<keyVariable>_FILE` and the secret directories.
+ */
+export interface IEncryptionOptions {
+  /**
+   * The key, which is 32 bytes either as a buffer or encoded as base64 or hex.
+   */
+  key?: EncryptionKey;
+
+  /**
+   * The path of a file that holds the key.
+   */
+  keyFile?: string;
+
+  /**
+   * The name of the variable that holds the key, defaults to `ENV_ENCRYPTION_KEY`.
+   */
+  keyVariable?: string;
+}
+
+/**
+ * Options for a scoped sub-environment created with `scope`.
+ */
+export interface IScopeOptions {
+  /**
+   * Falls back to the unprefixed variable when the prefixed one is not set, defaults to false.
+   */
+  fallback?: boolean;
+
+  /**
+   * How the scope treats overrides, defaults to `shared`:
+   * - `shared`: the scope reads and writes the overrides of its parent.
+   * - `inherited`: the scope has its own overrides, and sees the overrides of its parent for the variables it does not override.
+   */
+  overrides?: 'shared' | 'inherited';
+}
+
+/**
+ * Options for binding structured variables to a nested object with `bind`.
+ */
+export interface IBindOptions<T> {
+  /**
+   * The separator between the segments of the variable names, defaults to `__`.
+   */
+  separator?: string;
+
+  /**
+   * The defaults of the object. The variables are merged into a copy of them, and the types of their values are used to convert the
+   * variables.
+   */
+  defaults?: T;
+
+  /**
+   * The types of the values that are not in the defaults, keyed by their path within the object, such as `servers.*.port` where `*`
+   * stands for any array index.
+   */
+  types?: Record<string, EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType>;
+}
+
+/**
+ * Options for a single call to `getOrDefault`.
+ */
+export interface IGetOrDefaultOptions {
+  /**
+   * Overrides the strict mode of the environment for this call.
+   */
+  strict?: boolean;
+
+  /**
+   * Overrides the array and map parsing options of the environment for this call.
+   */
+  array?: IArrayParseOptions;
+}
+
+/**
+ * Options for loading .env files into an environment.
+ */
+export interface IEnvFileLoadOptions {
+  /**
+   * The directory to look for the .env files in, defaults to the current working directory.
+   */
+  directory?: string;
+
+  /**
+   * The value of NODE_ENV used to pick the environment specific files, defaults to `process.env.NODE_ENV`.
+   */
+  nodeEnv?: string;
+
+  /**
+   * An explicit list of files to load in order of precedence, lowest first. Replaces the default layering.
+   */
+  files?: string[];
+
+  /**
+   * Copies the loaded variables to `process.env` for variables that are not already set there.
+   */
+  populateProcessEnv?: boolean;
+
+  /**
+   * Lets the loaded variables take precedence over `process.env`, and replaces them in `process.env`.
+   */
+  overrideProcessEnv?: boolean;
+}
+
+/**
+ * Where the value of an environment variable came from, which is one of:
+ * - `override`: an overridden variable.
+ * - `process`: `process.env`.
+ * - `provider`: a provider other than `process.env`, named by the `provider` of the variable.
+ * - `file`: a loaded .env file.
+ * - `secret`: a secret file.
+ * - `default`: the default value.
+ * - `computed`: the result of a default value function.
+ */
+export type EnvironmentVariableSource =
+  | 'override'
+  | 'process'
+  | 'provider'
+  | 'file'
+  | 'secret'
+  | 'default'
+  | 'computed';
+
+/**
+ * Represents a variable that was read from an environment, as listed by `dump`.
+ */
+export interface IEnvironmentVariableDump {
+  /**
+   * The serialized value of the variable, or the mask if the variable is a secret.
+   */
+  value: string | undefined;
+
+  /**
+   * Where the value came from.
+   */
+  source: EnvironmentVariableSource;
+
+  /**
+   * The name of the provider the value came from, if its source is `provider`.
+   */
+  provider?: string;
+
+  /**
+   * The type the variable was read as.
+   */
+  type: string;
+
+  /**
+   * True if the variable is a secret.
+   */
+  secret: boolean;
+}
+
+/**
+ * Represents how the value of an environment variable was resolved, as returned by `getWithSource` and `explain`.
+ */
+export interface IResolvedVariable<T = unknown> {
+  /**
+   * The name of the variable.
+   */
+  variable: string;
+
+  /**
+   * The converted value of the variable.
+   */
+  value: T;
+
+  /**
+   * The type the variable was read as.
+   */
+  type: string;
+
+  /**
+   * Where the value came from.
+   */
+  source: EnvironmentVariableSource;
+
+  /**
+   * The name of the provider the value came from, if its source is `provider`.
+   */
+  provider?: string;
+
+  /**
+   * The raw string before it was converted, with its references expanded. Undefined for overrides and defaults.
+   */
+  rawValue: string | undefined;
+
+  /**
+   * The path of the .env file or secret file the value was read from.
+   */
+  file?: string;
+
+  /**
+   * The 1-based line number of the .env file the variable was declared on.
+   */
+  line?: number;
+
+  /**
+   * The alias or deprecated name the value was read through, if it was not read through the name of the variable.
+   */
+  alias?: string;
+
+  /**
+   * The variables that were read by the default value function, if the value was computed.
+   */
+  dependencies: IResolvedVariable[];
+}
+
+/**
+ * The unexpanded value of an environment variable along with where it came from.
+ */
+interface ISourcedRawValue extends IRawValue {
+  /**
+   * Where the value came from.
+   */
+  source: EnvironmentVariableSource;
+
+  /**
+   * The name of the provider the value came from, if its source is `provider`.
+   */
+  provider?: string;
+
+  /**
+   * The path of the .env file or secret file the value was read from.
+   */
+  file?: string;
+
+  /**
+   * The 1-based line number of the .env file the variable was declared on.
+   */
+  line?: number;
+
+  /**
+   * The alias or deprecated name the value was read through, if it was not read through the name of the variable.
+   */
+  alias?: string;
+
+  /**
+   * True if the value was read from a .env file by an `EnvFileProvider`.
+   */
+  envFile?: boolean;
+}
+
+/**
+ * Represents a change to the value of an environment variable, emitted as the `change` event after a reload.
+ */
+export interface IEnvironmentChangeEvent<T = unknown> {
+  /**
+   * The name of the variable.
+   */
+  key: string;
+
+  /**
+   * The value of the variable before the reload.
+   */
+  oldValue: T;
+
+  /**
+   * The value of the variable after the reload.
+   */
+  newValue: T;
+}
+
+/**
+ * Options for watching the files backing an environment.
+ */
+export interface IWatchOptions {
+  /**
+   * The number of milliseconds to wait after the last change to a file before reloading, defaults to 100.
+   */
+  debounce?: number;
+
+  /**
+   * The number of milliseconds between refreshes of the async providers. Each refresh loads the providers whose values have expired
+   * or have no TTL. The async providers are not refreshed if it is not set.
+   */
+  refreshInterval?: number;
+}
+
+/**
+ * The arguments a variable was last read with, so it can be read again after a reload.
+ */
+interface IVariableReader {
+  /**
+   * The default value of the variable.
+   */
+  defaultValue?: DefaultValueGetter<unknown>;
+
+  /**
+   * The type of the variable.
+   */
+  optionalType?: string;
+
+  /**
+   * The options the variable was read with.
+   */
+  options?: IGetOrDefaultOptions;
+}
+
+/**
+ * Represents a variable that was loaded from a .env file.
+ */
+export interface ILoadedVariable extends IDotEnvEntry {
+  /**
+   * The absolute path of the file the variable was loaded from.
+   */
+  file: string;
+}
+
+/**
+ * A class for loading environment variables from .env files programmatically.
+ *
+ * Also provides methods for checking if the current environment is inside of a docker container.
+ *
+ * Emits a `change` event for every variable whose value changed after a reload, and an `error` event when a reload fails.
+ */
+export default class Environment extends EventEmitter {
+  /**
+   * @internal This is a private member.
+   */
+  private static _isDocker?: boolean = undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _overriddenVariables: Map<string, unknown>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _overrideScopes: AsyncLocalStorage<Map<string, unknown>>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _removedOverride = Symbol('removed');
+
+  /**
+   * @internal This is a private member.
+   */
+  private _loadedVariables: Map<string, ILoadedVariable>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _loadedFiles: string[];
+
+  /**
+   * @internal This is a private member.
+   */
+  private _overrideProcessEnv: boolean;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _options: IEnvironmentOptions;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _mapTypeRegex = /^map<([^,]+),(.+)>$/;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _dockerSecretsDirectory = '/run/secrets';
+
+  /**
+   * @internal This is a private member.
+   */
+  private _secretCache: Map<string, string>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _defaultSecretPatterns = ['*_PASSWORD', '*_TOKEN', '*_KEY', '*_SECRET'];
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _stageAliases = new Map<string, Stage>([
+    ['dev', 'development'],
+    ['develop', 'development'],
+    ['prod', 'production'],
+    ['stage', 'staging'],
+    ['stg', 'staging'],
+    ['testing', 'test'],
+  ]);
+
+  /**
+   * @internal This is a private member.
+   */
+  private _secretVariables: Set<string>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _aliases: Map<string, IVariableAliases>;
+
+  /**
+   * The aliases declared by the schema being validated, which only apply while it is validated.
+   *
+   * @internal This is a private member.
+   */
+  private _schemaAliases?: Map<string, IVariableAliases>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _reportedWarnings: Set<string>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _accessedVariables: Map<string, IResolvedVariable>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _dependencyFrames: IResolvedVariable[][];
+
+  /**
+   * @internal This is a private member.
+   */
+  private _readers: Map<string, IVariableReader>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _loadOptions?: IEnvFileLoadOptions;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _populatedVariables: Map<string, string>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _watchers: fs.FSWatcher[];
+
+  /**
+   * @internal This is a private member.
+   */
+  private _parent?: Environment;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _prefix: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _scopeOptions: IScopeOptions;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _reloadTimer?: NodeJS.Timeout;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _refreshTimer?: NodeJS.Timeout;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _providers: IEnvironmentProvider[];
+
+  /**
+   * Constructs a new environment.
+   * @param {IEnvironmentOptions} [options] The options for the environment.
+   */
+  public constructor(options?: IEnvironmentOptions) {
+    super();
+
+    this._init(options);
+  }
+
+  /**
+   * Adds a listener for the `change` event, emitted for every variable whose value changed after a reload.
+   * @param {'change'} event The name of the event.
+   * @param {Function} listener The listener.
+   * @returns {this} The environment.
+   */
+  public on(event: 'change', listener: (change: IEnvironmentChangeEvent) => void): this;
+
+  /**
+   * Adds a listener for the `error` event, emitted when a reload fails.
+   * @param {'error'} event The name of the event.
+   * @param {Function} listener The listener.
+   * @returns {this} The environment.
+   */
+  public on(event: 'error', listener: (error: Error) => void): this;
+
+  /**
+   * Adds a listener for the event.
+   * @param {string | symbol} event The name of the event.
+   * @param {Function} listener The listener.
+   * @returns {this} The environment.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Subscribes to the changes of a single variable.
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = env.onChange<number>('RATE_LIMIT', (limit) => limiter.setLimit(limit));
+   * ```
+   * @param {string} key The key of the environment variable.
+   * @param {Function} listener The listener, called with the new and old value of the variable.
+   * @template T The type of the environment variable.
+   * @returns {Function} A function that unsubscribes the listener.
+   */
+  public onChange<T = unknown>(key: string, listener: (newValue: T, oldValue: T) => void): () => void {
+    const onChange = (change: IEnvironmentChangeEvent<T>) => {
+      if (change.key === key) listener(change.newValue, change.oldValue);
+    };
+
+    this.on('change', onChange);
+
+    return () => {
+      this.off('change', onChange);
+    };
+  }
+
+  /**
+   * Gets the list of .env files that were loaded into this environment, in order of precedence, lowest first.
+   * @returns {string[]} The absolute paths of the loaded files.
+   */
+  public get loadedFiles(): string[] {
+    return [...this._root._loadedFiles];
+  }
+
+  /**
+   * Gets the providers the variables are read from, highest precedence first.
+   * @returns {IEnvironmentProvider[]} The providers.
+   */
+  public get providers(): IEnvironmentProvider[] {
+    return [...this._root._providers];
+  }
+
+  /**
+   * Adds a provider to the chain the variables are read from. Scoped environments share the providers of the environment they were
+   * scoped from.
+   *
+   * @example
+   * ```typescript
+   * env.addProvider(new ConfigFileProvider('/etc/app/config.yaml'));
+   * env.addProvider(new MemoryProvider({ LOG_LEVEL: 'debug' }), 'first');
+   * ```
+   * @param {IEnvironmentProvider} provider The provider.
+   * @param {'first' | 'last'} [position] Whether the provider takes precedence over the other providers or is read after them,
+   * defaults to `last`.
+   * @returns {void} Nothing.
+   */
+  public addProvider(provider: IEnvironmentProvider, position: 'first' | 'last' = 'last'): void {
+    if (position === 'first') this._root._providers.unshift(provider);
+    else this._root._providers.push(provider);
+  }
+
+  /**
+   * Removes a provider from the chain the variables are read from.
+   * @param {IEnvironmentProvider} provider The provider.
+   * @returns {boolean} True if the provider was in the chain.
+   */
+  public removeProvider(provider: IEnvironmentProvider): boolean {
+    const index = this._root._providers.indexOf(provider);
+    if (index === -1) return false;
+
+    this._root._providers.splice(index, 1);
+
+    return true;
+  }
+
+  /**
+   * Gets the prefix of this environment, including the prefixes of the environments it was scoped from.
+   * @returns {string} The prefix, empty if this environment is not scoped.
+   */
+  public get prefix(): string {
+    return this._parent === undefined ? '' : this._parent.prefix + this._prefix;
+  }
+
+  /**
+   * Gets the normalized deployment stage, read from `NODE_ENV` or the variables configured with the `stage` option.
+   *
+   * The value is trimmed and lower cased, and aliases like `prod` and `dev` are resolved to their stage. Overridden variables and
+   * loaded .env files are respected, and scoped environments share the stage of the environment they were scoped from.
+   *
+   * @example
+   * ```typescript
+   * process.env.APP_ENV = 'Prod';
+   *
+   * new Environment({ stage: { variables: ['APP_ENV', 'NODE_ENV'] } }).stage; // 'production'
+   * ```
+   * @returns {Stage} The stage, or the default stage if none of the variables are set.
+   */
+  public get stage(): Stage {
+    const root = this._root;
+    const { variables = ['NODE_ENV'], aliases = {}, default: fallback = 'development' } = root._options.stage ?? {};
+
+    for (const variable of variables) {
+      const value = root._isOverridden(variable)
+        ? typeConverters.serialize(root._getOverride(variable))
+        : root._getRawValue(variable);
+
+      const stage = value?.trim().toLowerCase();
+      if (stage === undefined || stage === '') continue;
+
+      return aliases[stage] ?? Environment._stageAliases.get(stage) ?? stage;
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Determines if the deployment stage is one of the given stages.
+   * @param {Stage[]} stages The stages.
+   * @returns {boolean} True if the stage is one of the given stages.
+   */
+  public isStage(...stages: Stage[]): boolean {
+    return stages.includes(this.stage);
+  }
+
+  /**
+   * Determines if the deployment stage is `production`.
+   * @returns {boolean} True if the stage is `production`.
+   */
+  public isProduction(): boolean {
+    return this.isStage('production');
+  }
+
+  /**
+   * Determines if the deployment stage is `staging`.
+   * @returns {boolean} True if the stage is `staging`.
+   */
+  public isStaging(): boolean {
+    return this.isStage('staging');
+  }
+
+  /**
+   * Determines if the deployment stage is `development`.
+   * @returns {boolean} True if the stage is `development`.
+   */
+  public isDevelopment(): boolean {
+    return this.isStage('development');
+  }
+
+  /**
+   * Determines if the deployment stage is `test`.
+   * @returns {boolean} True if the stage is `test`.
+   */
+  public isTest(): boolean {
+    return this.isStage('test');
+  }
+
+  /**
+   * Creates a default value that differs by deployment stage, which can be passed anywhere a default value is accepted.
+   *
+   * @example
+   * ```typescript
+   * env.getOrDefault('POOL_SIZE', Environment.perStage({ production: 10, default: 2 })); // 10 in production, 2 elsewhere
+   * ```
+   * @param {StageDefaultValues<T>} values The default values of each stage, with `default` used for the stages that are not listed.
+   * @template T The type of the environment variable.
+   * @returns {StageDefaults<T>} The default value.
+   */
+  public static perStage<T>(values: StageDefaultValues<T>): StageDefaults<T> {
+    return new StageDefaults(values);
+  }
+
+  /**
+   * Creates a sub-environment that reads the variables with the given prefix, so `DB_HOST` reads `PAYMENTS_DB_HOST`.
+   *
+   * The sub-environment is an instance of the same class and shares the .env files, secret files and options of this environment, so
+   * the variables declared with the `env` decorator read the prefixed variables. The constructor of the class is not run for it.
+   * Errors, dumps and `explain` report the fully qualified names of the variables.
+   *
+   * @example
+   * ```typescript
+   * const payments = env.scope('PAYMENTS_', { fallback: true });
+   *
+   * payments.getOrDefault('DB_HOST', 'localhost'); // PAYMENTS_DB_HOST, or DB_HOST if it is not set
+   * ```
+   * @param {string} prefix The prefix of the variables.
+   * @param {IScopeOptions} [options] The options for the sub-environment.
+   * @returns {this} The sub-environment.
+   */
+  public scope(prefix: string, options?: IScopeOptions): this {
+    // The constructor of a subclass is not run again, as it may load files or start watchers, but its prototype keeps the
+    // variables declared with the `env` decorator.
+    const child: this = Object.create(Object.getPrototypeOf(this));
+    EventEmitter.call(child);
+    child._init(this._options);
+
+    child._parent = this;
+    child._prefix = prefix;
+    child._scopeOptions = { ...options };
+
+    return child;
+  }
+
+  /**
+   * Binds the variables under the prefix to a nested object, where each separator in their names starts a nested object and numeric
+   * segments are array indices.
+   *
+   * The segments are matched to the keys of the defaults case insensitively and ignoring underscores, so `MAX_CONNECTIONS` binds to
+   * `maxConnections`. Segments that are not in the defaults are converted to camel case.
+   *
+   * @example
+   * ```typescript
+   * // DATABASE__PRIMARY__HOST=db.example.com
+   * // DATABASE__PRIMARY__PORT=5433
+   * // DATABASE__REPLICAS__0__HOST=replica.example.com
+   * env.bind('DATABASE', {
+   *   defaults: { primary: { host: 'localhost', port: 5432 }, replicas: [] as { host: string }[] },
+   * });
+   * // { primary: { host: 'db.example.com', port: 5433 }, replicas: [{ host: 'replica.example.com' }] }
+   * ```
+   * @param {string} prefix The prefix of the variables, without the trailing separator.
+   * @param {IBindOptions<T>} [options] The options for binding the variables.
+   * @template T The type of the object.
+   * @returns {T} The bound object.
+   * @throws {EnvironmentVariableParseError} If a value cannot be converted to its type in strict mode.
+   */
+  public bind<T extends object = Record<string, unknown>>(prefix: string, options?: IBindOptions<T>): T {
+    const separator = options?.separator ?? '__';
+    const qualifiedPrefix = (this._qualify(prefix, false) + separator).toUpperCase();
+    const result = Environment._clonePlain(options?.defaults ?? {}) as Record<string, unknown>;
+
+    const candidates = new Set([
+      ...this._root._providers.flatMap((provider) => provider.keys?.() ?? []),
+      ...this._root._loadedVariables.keys(),
+      ...this._listOverrides(),
+    ]);
+    const variables = [...candidates]
+      .filter((name) => name.toUpperCase().startsWith(qualifiedPrefix))
+      .map((name) => ({ name, segments: name.slice(qualifiedPrefix.length).split(separator) }))
+      .filter(({ segments }) => !segments.includes(''))
+      // Shallower variables first, so deeper variables replace the parts of the objects they set.
+      .sort((a, b) => a.segments.length - b.segments.length || a.name.localeCompare(b.name));
+
+    for (const { name, segments } of variables) {
+      let container: Record<string | number, unknown> = result;
+      let defaults: unknown = options?.defaults;
+      const path: string[] = [];
+
+      for (let i = 0; i < segments.length; i++) {
+        const key = Environment._matchKey(container, segments[i]);
+        path.push(Array.isArray(container) ? '*' : String(key));
+        defaults = (defaults as Record<string | number, unknown>)?.[key];
+
+        if (i === segments.length - 1) {
+          container[key] = this._resolve(name, defaults, options?.types?.[path.join('.')]).value;
+
+          break;
+        }
+
+        if (typeof container[key] !== 'object' || container[key] === null)
+          container[key] = /^\d+$/.test(segments[i + 1]) ? [] : {};
+
+        container = container[key] as Record<string | number, unknown>;
+      }
+    }
+
+    return result as T;
+  }
+
+  /**
+   * Returns true if the current variable is overridden.
+   * @param {string} variable The variable to check.
+   * @returns {boolean} True if the variable is overridden.
+   */
+  public isVariableOverridden(variable: string): boolean {
+    return this._isOverridden(this._qualify(variable));
+  }
+
+  /**
+   * Returns the value of the overridden variable.
+   * @param {string} variable The variable to get the value of.
+   * @template T The type of the variable.
+   * @returns {T} The value of the variable.
+   */
+  public getOverridenVariable<T = unknown>(variable: string): T {
+    return this._getOverride(this._qualify(variable)) as T;
+  }
+
+  /**
+   * Sets the value of the overridden variable.
+   *
+   * Within `withOverrides`, only the current scope is changed.
+   *
+   * @param {string} variable The variable to set the value of.
+   * @param {T} value The value to set.
+   * @template T The type of the variable.
+   * @returns {void} Nothing.
+   */
+  public overrideVariable<T = unknown>(variable: string, value: T): void {
+    this._setOverride(this._qualify(variable, false), value);
+  }
+
+  /**
+   * Removes the overridden variable.
+   *
+   * Within `withOverrides`, only the current scope is changed.
+   *
+   * @param {string} variable The variable to remove.
+   * @returns {void} Nothing.
+   */
+  public removeOverriddenVariable(variable: string): void {
+    this._removeOverride(this._qualify(variable, false));
+  }
+
+  /**
+   * Runs the function with the variables overridden, and restores the previous overrides once it returns, throws or its promise
+   * settles.
+   *
+   * The overrides are scoped to the async context of the function, so concurrent calls only see their own overrides, and calls
+   * can be nested to stack overrides on top of each other.
+   *
+   * @example
+   * ```typescript
+   * await env.withOverrides({ FEATURE_ENABLED: true, RATE_LIMIT: 5 }, async () => {
+   *   env.getOrDefault('FEATURE_ENABLED', false); // true
+   *
+   *   await env.withOverrides({ RATE_LIMIT: 10 }, () => env.getOrDefault('RATE_LIMIT', 0)); // 10
+   * });
+   *
+   * env.getOrDefault('FEATURE_ENABLED', false); // false
+   * ```
+   * @param {Record<string, unknown>} overrides The variables to override.
+   * @param {Function} fn The function to run.
+   * @template R The return type of the function.
+   * @returns {R} The return value of the function.
+   */
+  public withOverrides<R>(overrides: Record<string, unknown>, fn: () => R): R {
+    const qualified = Object.entries(overrides).map(([variable, value]): [string, unknown] => [
+      this._qualify(variable, false),
+      value,
+    ]);
+
+    return this._runWithOverrides(new Map(qualified), fn);
+  }
+
+  /**
+   * Loads the .env files into this environment.
+   *
+   * By default the files are layered in the following order, where each file takes precedence over the ones before it:
+   * 1. `.env`
+   * 2. `.env.local`
+   * 3. `.env.<NODE_ENV>`
+   * 4. `.env.<NODE_ENV>.local`
+   *
+   * Files that do not exist are skipped. Loading the files again replaces the previously loaded variables.
+   *
+   * A file that is encrypted as a whole with `encryptFile` is decrypted before it is parsed.
+   *
+   * @param {IEnvFileLoadOptions} [options] The options for loading the files.
+   * @returns {string[]} The absolute paths of the files that were loaded.
+   * @throws {DotEnvParseError} If any of the files cannot be parsed, in which case nothing is loaded.
+   * @throws {DecryptionError} If any of the files cannot be decrypted, in which case nothing is loaded.
+   */
+  public loadEnvFiles(options?: IEnvFileLoadOptions): string[] {
+    if (this._parent !== undefined) return this._parent.loadEnvFiles(options);
+
+    const loadedVariables = new Map<string, ILoadedVariable>();
+    const loadedFiles: string[] = [];
+
+    for (const fileName of this._getEnvFiles(options)) {
+      if (!fs.existsSync(fileName)) continue;
+
+      for (const entry of dotEnvParser.parse(this._readEnvFile(fileName), fileName).values()) {
+        loadedVariables.set(entry.key, { ...entry, file: fileName });
+      }
+
+      loadedFiles.push(fileName);
+    }
+
+    this._loadedVariables = loadedVariables;
+    this._loadedFiles = loadedFiles;
+    this._loadOptions = options ?? {};
+    this._overrideProcessEnv = options?.overrideProcessEnv ?? false;
+
+    // Take back the values a previous load copied to process.env, unless something else has replaced them since.
+    for (const [key, value] of this._populatedVariables) {
+      if (process.env[key] === value) delete process.env[key];
+    }
+
+    this._populatedVariables.clear();
+
+    if (options?.populateProcessEnv || this._overrideProcessEnv) {
+      for (const variable of loadedVariables.values()) {
+        if (this._overrideProcessEnv || process.env[variable.key] === undefined) {
+          process.env[variable.key] = variable.value;
+          this._populatedVariables.set(variable.key, variable.value);
+        }
+      }
+    }
+
+    return loadedFiles;
+  }
+
+  /**
+   * Reloads the .env files with the options they were last loaded with, clears the cached secret files, and reads every variable
+   * that was read before again with the same default value and type. A `change` event is emitted for every variable whose value
+   * changed.
+   *
+   * Overridden variables keep their overridden value. Reloading a scoped environment reloads the environment it was scoped from.
+   *
+   * @returns {IEnvironmentChangeEvent[]} The changes.
+   * @throws {DotEnvParseError} If any of the files cannot be parsed, in which case the previously loaded variables are kept.
+   */
+  public reload(): IEnvironmentChangeEvent[] {
+    if (this._parent !== undefined) {
+      this._parent.reload();
+    } else {
+      if (this._loadOptions !== undefined) this.loadEnvFiles(this._loadOptions);
+
+      for (const provider of this._providers) provider.reload?.();
+
+      this.clearSecretCache();
+    }
+
+    return this._rereadVariables();
+  }
+
+  /**
+   * Loads the values of the async providers, such as remote providers, so they can be read synchronously. Every variable that was
+   * read before is read again, and a `change` event is emitted for every variable whose value changed.
+   *
+   * When a provider that loaded before fails to load, it keeps its last values and an `error` event is emitted.
+   *
+   * @example
+   * ```typescript
+   * const env = new MyEnvironment({ providers: [new ProcessEnvProvider(), new RemoteProvider(new HttpSource(configUrl))] });
+   *
+   * await env.load();
+   * env.getOrDefault('RATE_LIMIT', 100); // read from the cached values of the configuration service
+   * ```
+   * @returns {Promise<IEnvironmentChangeEvent[]>} The changes.
+   * @throws {RemoteSourceError} If a provider that never loaded fails to load.
+   */
+  public load(): Promise<IEnvironmentChangeEvent[]> {
+    return this._load(false);
+  }
+
+  /**
+   * Gets the freshness of the values of the async providers.
+   * @returns {IProviderStatus[]} The status of each async provider, in the order of the providers.
+   */
+  public getProviderStatus(): IProviderStatus[] {
+    return this._root._providers.filter(Environment._isAsyncProvider).map((provider) => provider.status);
+  }
+
+  /**
+   * Watches the directories of the .env files and secret files, and reloads the environment when any of them change. With a
+   * `refreshInterval`, the async providers are refreshed as well.
+   *
+   * Rapid changes are debounced into a single reload. If a reload fails, for example because a file cannot be parsed, an `error`
+   * event is emitted and the last good configuration is kept.
+   *
+   * @param {IWatchOptions} [options] The options for watching the files.
+   * @returns {void} Nothing.
+   */
+  public watch(options?: IWatchOptions): void {
+    this.unwatch();
+
+    const debounce = options?.debounce ?? 100;
+    const { dockerSecrets = false, directories = [] } = this._options.secrets ?? {};
+
+    const root = this._root;
+    const envFiles = root._loadOptions !== undefined ? this._getEnvFiles(root._loadOptions) : [];
+
+    const watchedDirectories = new Set([
+      ...envFiles.map((file) => path.dirname(file)),
+      ...[...root._secretCache.keys()].map((file) => path.dirname(file)),
+      ...(dockerSecrets ? [Environment._dockerSecretsDirectory] : []),
+      ...directories.map((directory) => path.resolve(directory)),
+    ]);
+
+    for (const directory of watchedDirectories) {
+      if (!fs.existsSync(directory)) continue;
+
+      const watcher = fs.watch(directory, { persistent: false }, () => {
+        clearTimeout(this._reloadTimer);
+
+        this._reloadTimer = setTimeout(() => {
+          try {
+            this.reload();
+          } catch (error) {
+            this._emitError(error as Error);
+          }
+        }, debounce);
+      });
+
+      watcher.on('error', (error) => this._emitError(error));
+
+      this._watchers.push(watcher);
+    }
+
+    if (options?.refreshInterval !== undefined) {
+      this._refreshTimer = setInterval(() => {
+        this._load(true).catch((error) => this._emitError(error));
+      }, options.refreshInterval);
+
+      this._refreshTimer.unref();
+    }
+  }
+
+  /**
+   * Stops watching the files backing the environment and refreshing the async providers.
+   * @returns {void} Nothing.
+   */
+  public unwatch(): void {
+    clearTimeout(this._reloadTimer);
+    clearInterval(this._refreshTimer);
+
+    for (const watcher of this._watchers) watcher.close();
+
+    this._watchers = [];
+  }
+
+  /**
+   * Returns the variable that was loaded from a .env file.
+   * @param {string} variable The variable to get.
+   * @returns {ILoadedVariable | undefined} The loaded variable, or undefined if it was not loaded from a file.
+   */
+  public getLoadedVariable(variable: string): ILoadedVariable | undefined {
+    return this._root._loadedVariables.get(this._qualify(variable));
+  }
+
+  /**
+   * Clears the cached contents of the secret files, so they are read again the next time they are used.
+   * @returns {void} Nothing.
+   */
+  public clearSecretCache(): void {
+    this._root._secretCache.clear();
+  }
+
+  /**
+   * Returns true if the variable is overridden or set by a provider, the loaded .env files or a secret file.
+   * @param {string} variable The variable to check.
+   * @returns {boolean} True if the variable is set.
+   */
+  public hasVariable(variable: string): boolean {
+    return this._isSet(this._qualify(variable));
+  }
+
+  /**
+   * Registers a custom type, which can then be used as the type of any environment variable and within `array<...>`.
+   *
+   * @example
+   * ```typescript
+   * Environment.registerType('url', { parse: (value) => new URL(value), serialize: (value) => value.href });
+   *
+   * env.getOrDefault<URL>('SERVICE_URL', undefined, 'url');
+   * env.getOrDefault<URL[]>('MIRROR_URLS', [], 'array<url>');
+   * ```
+   * @param {string} name The name of the type.
+   * @param {ICustomTypeConverter<T>} converter The converter of the type.
+   * @template T The type the converter produces.
+   * @returns {void} Nothing.
+   * @throws {TypeError} If the name is not a valid type name or belongs to a built-in type.
+   */
+  public static registerType<T>(name: string, converter: ICustomTypeConverter<T>): void {
+    typeConverters.register(name, converter);
+  }
+
+  /**
+   * Removes a custom type.
+   * @param {string} name The name of the type.
+   * @returns {boolean} True if the type was registered.
+   */
+  public static unregisterType(name: string): boolean {
+    return typeConverters.unregister(name);
+  }
+
+  /**
+   * Declares a schema. This is an identity function that exists so the types of the schema entries are inferred.
+   *
+   * @example
+   * ```typescript
+   * const schema = Environment.defineSchema({
+   *   port: { name: 'PORT', type: 'number', default: 8080, constraints: { min: 1, max: 65535 } },
+   *   databaseUrl: { name: 'DATABASE_URL', required: true, description: 'The database connection string.' },
+   * });
+   * ```
+   * @param {S} schema The schema.
+   * @template S The type of the schema.
+   * @returns {S} The same schema.
+   */
+  public static defineSchema<S extends Schema>(schema: S): S {
+    return schema;
+  }
+
+  /**
+   * Gets the variables declared with the `env` decorator on this class and the classes it inherits from.
+   * @returns {Schema} The declared variables as a schema, keyed by property name.
+   */
+  public static getDeclaredVariables(): Schema {
+    return getDeclaredVariables(this.prototype);
+  }
+
+  /**
+   * Generates a commented `.env.example` file from the schema, or from the variables declared on this class.
+   *
+   * @example
+   * ```typescript
+   * fs.writeFileSync('.env.example', MyEnvironment.generateEnvExample());
+   * ```
+   * @param {Schema} [schema] The schema, defaults to the variables declared with the `env` decorator.
+   * @returns {string} The contents of the file.
+   */
+  public static generateEnvExample(schema?: Schema): string {
+    return schemaGenerators.toEnvExample(schema ?? this.getDeclaredVariables());
+  }
+
+  /**
+   * Generates a Markdown reference table from the schema, or from the variables declared on this class.
+   * @param {Schema} [schema] The schema, defaults to the variables declared with the `env` decorator.
+   * @returns {string} The table.
+   */
+  public static generateMarkdown(schema?: Schema): string {
+    return schemaGenerators.toMarkdown(schema ?? this.getDeclaredVariables());
+  }
+
+  /**
+   * Generates a JSON Schema of the variables in the schema, or of the variables declared on this class.
+   * @param {Schema} [schema] The schema, defaults to the variables declared with the `env` decorator.
+   * @returns {IJsonSchema} The JSON Schema, keyed by the names of the variables.
+   */
+  public static generateJsonSchema(schema?: Schema): IJsonSchema {
+    return schemaGenerators.toJsonSchema(schema ?? this.getDeclaredVariables());
+  }
+
+  /**
+   * Generates a random key for encrypting values and .env files.
+   *
+   * @example
+   * ```typescript
+   * const key = Environment.generateEncryptionKey(); // store it as ENV_ENCRYPTION_KEY, outside of the repository
+   *
+   * Environment.encryptFile('.env.production', key);
+   * ```
+   * @returns {string} The key, encoded as base64.
+   */
+  public static generateEncryptionKey(): string {
+    return envCrypto.generateKey();
+  }
+
+  /**
+   * Encrypts a value with AES-256-GCM, so it can be committed to a .env file as `NAME=enc:v1:...`.
+   * @param {string} value The value.
+   * @param {EncryptionKey} key The key, which is 32 bytes either as a buffer or encoded as base64 or hex.
+   * @returns {string} The encrypted value, starting with `enc:v1:`.
+   * @throws {TypeError} If the key is not 32 bytes.
+   */
+  public static encryptValue(value: string, key: EncryptionKey): string {
+    return envCrypto.encrypt(value, key);
+  }
+
+  /**
+   * Decrypts a value encrypted with `encryptValue`.
+   * @param {string} value The encrypted value, starting with `enc:v1:`.
+   * @param {EncryptionKey} key The key, which is 32 bytes either as a buffer or encoded as base64 or hex.
+   * @returns {string} The decrypted value.
+   * @throws {TypeError} If the value is not encrypted or the key is not 32 bytes.
+   * @throws {Error} If the key is wrong or the encrypted value was modified.
+   */
+  public static decryptValue(value: string, key: EncryptionKey): string {
+    return envCrypto.decrypt(value, key);
+  }
+
+  /**
+   * Encrypts the values of a .env file in place, keeping its comments and layout, or encrypts the file as a whole. Values that are
+   * already encrypted are kept as they are.
+   * @param {string} fileName The path of the file.
+   * @param {EncryptionKey} key The key, which is 32 bytes either as a buffer or encoded as base64 or hex.
+   * @param {IEncryptFileOptions} [options] The options for encrypting the file.
+   * @returns {void} Nothing.
+   * @throws {DotEnvParseError} If the file cannot be parsed.
+   */
+  public static encryptFile(fileName: string, key: EncryptionKey, options?: IEncryptFileOptions): void {
+    envCrypto.encryptFile(fileName, key, options);
+  }
+
+  /**
+   * Decrypts a .env file in place, both when it is encrypted as a whole and the values within it that are encrypted.
+   * @param {string} fileName The path of the file.
+   * @param {EncryptionKey} key The key, which is 32 bytes either as a buffer or encoded as base64 or hex.
+   * @param {IDecryptFileOptions} [options] The options for decrypting the file.
+   * @returns {void} Nothing.
+   * @throws {DecryptionError} If the file or any of its values cannot be decrypted, in which case nothing is written.
+   */
+  public static decryptFile(fileName: string, key: EncryptionKey, options?: IDecryptFileOptions): void {
+    envCrypto.decryptFile(fileName, key, options);
+  }
+
+  /**
+   * Re-encrypts a .env file in place with a new key, keeping the values that are not encrypted as they are.
+   * @param {string} fileName The path of the file.
+   * @param {EncryptionKey} oldKey The key the file is encrypted with.
+   * @param {EncryptionKey} newKey The key to encrypt the file with.
+   * @returns {void} Nothing.
+   * @throws {DecryptionError} If the file or any of its values cannot be decrypted with the old key, in which case nothing is written.
+   */
+  public static rotateEncryptionKey(fileName: string, oldKey: EncryptionKey, newKey: EncryptionKey): void {
+    envCrypto.rotateFile(fileName, oldKey, newKey);
+  }
+
+  /**
+   * Validates every variable declared in the schema, and returns their values.
+   *
+   * Every problem is collected before throwing, so a single call reports the whole misconfiguration. The rules are checked against
+   * the resolved values after the variables of the schema, so they can span several variables. The aliases and deprecated names
+   * declared in the schema only apply while it is validated; use {@link alias} to register them on the environment.
+   *
+   * @example
+   * ```typescript
+   * env.validate(schema, [Rules.allOf('TLS_CERT', 'TLS_KEY'), Rules.requires('SMTP_HOST', { EMAIL_ENABLED: true })]);
+   * ```
+   * @param {S} schema The schema to validate.
+   * @param {IRule[]} [rules] The rules that span several variables.
+   * @template S The type of the schema.
+   * @returns {Readonly<SchemaValues<S>>} A frozen object with the value of each variable, keyed like the schema.
+   * @throws {EnvironmentValidationError} If any variable is missing or invalid, or any rule does not hold.
+   */
+  public validate<S extends Schema>(schema: S, rules: IRule[] = []): Readonly<SchemaValues<S>> {
+    const issues: IEnvironmentValidationIssue[] = [];
+    const values: Record<string, unknown> = {};
+
+    const previousAliases = this._schemaAliases;
+
+    // The aliases of the schema only apply while it is validated, so reading the variables later does not depend on it.
+    this._schemaAliases = new Map(
+      Object.entries(schema)
+        .filter(([, entry]) => entry.aliases !== undefined || entry.deprecated !== undefined)
+        .map(([property, entry]) => [this._qualify(entry.name ?? property, false), this._qualifyAliases(entry)]),
+    );
+
+    try {
+      for (const [property, entry] of Object.entries(schema)) {
+        let variable = entry.name ?? property;
+
+        try {
+          variable = this._qualify(variable);
+          if (entry.secret) this._secretVariables.add(variable);
+
+          const isSet = this._isOverridden(variable) || ![undefined, ''].includes(this._getRawValue(variable));
+          const defaultValue =
+            entry.default instanceof StageDefaults ? entry.default.resolve(this.stage) : entry.default;
+
+          if (!isSet && entry.required) {
+            issues.push({ variable, message: 'is required but not set' });
+
+            continue;
+          }
+
+          if (!isSet && entry.requiredIn?.includes(this.stage)) {
+            issues.push({ variable, message: `is required in ${this.stage} but not set` });
+
+            continue;
+          }
+
+          if (!isSet && defaultValue === undefined) {
+            values[property] = undefined;
+
+            continue;
+          }
+
+          const { value } = this._resolve(variable, defaultValue, entry.type, { strict: true, array: entry.array });
+
+          for (const message of schemaValidator.check(value, entry)) issues.push({ variable, message });
+
+          values[property] = entry.secret ? new Secret(value) : value;
+        } catch (error) {
+          issues.push({ variable, message: (error as Error).message });
+        }
+      }
+
+      issues.push(...this._checkRules(rules, schema, values));
+    } finally {
+      this._schemaAliases = previousAliases;
+    }
+
+    if (issues.length > 0) throw new EnvironmentValidationError(issues);
+
+    return Object.freeze(values) as SchemaValues<S>;
+  }
+
+  /**
+   * Tries to get then deserialize the value of the environment variable..
+   *
+   * @param {string} key The key of the environment variable.
+   * @param {DefaultValueGetter<T>} [defaultValue] The default value of the environment variable.
+   * @param {EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType} [optionalType] The type of the environment variable.
+   * @param {IGetOrDefaultOptions} [options] The options for this call.
+   * @template T The type of the environment variable.
+   * @returns {T} The value of the environment variable.
+   * @throws {EnvironmentVariableParseError} If the value cannot be converted to its type in strict mode.
+   */
+  public getOrDefault<T = unknown>(
+    key: string,
+    defaultValue?: DefaultValueGetter<T>,
+    optionalType?: EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType,
+    options?: IGetOrDefaultOptions,
+  ): T {
+    return this._resolve(this._qualify(key), defaultValue, optionalType, options).value;
+  }
+
+  /**
+   * Gets the value of the environment variable like `getOrDefault`, along with where it came from.
+   *
+   * @example
+   * ```typescript
+   * env.getWithSource('PORT', 8080);
+   * // { variable: 'PORT', value: 3000, type: 'number', source: 'file', rawValue: '3000', file: '/app/.env', line: 2, dependencies: [] }
+   *
+   * env.getWithSource('PUBLIC_URL', () => `http://localhost:${env.getOrDefault('PORT', 8080)}`);
+   * // { variable: 'PUBLIC_URL', source: 'computed', dependencies: [{ variable: 'PORT', ... }], ... }
+   * ```
+   * @param {string} key The key of the environment variable.
+   * @param {DefaultValueGetter<T>} [defaultValue] The default value of the environment variable.
+   * @param {EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType} [optionalType] The type of the environment variable.
+   * @param {IGetOrDefaultOptions} [options] The options for this call.
+   * @template T The type of the environment variable.
+   * @returns {IResolvedVariable<T>} The value of the environment variable and where it came from.
+   * @throws {EnvironmentVariableParseError} If the value cannot be converted to its type in strict mode.
+   */
+  public getWithSource<T = unknown>(
+    key: string,
+    defaultValue?: DefaultValueGetter<T>,
+    optionalType?: EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType,
+    options?: IGetOrDefaultOptions,
+  ): IResolvedVariable<T> {
+    return this._resolve(this._qualify(key), defaultValue, optionalType, options);
+  }
+
+  /**
+   * Explains where the value of the environment variable came from.
+   *
+   * Returns how the variable was resolved the last time it was read, so the default value and type it was read with are taken into
+   * account. Variables that were not read yet are resolved as a string without a default, and are not recorded as read.
+   *
+   * @param {string} key The key of the environment variable.
+   * @returns {IResolvedVariable} The value of the environment variable and where it came from.
+   */
+  public explain(key: string): IResolvedVariable {
+    const variable = this._qualify(key);
+
+    return this._accessedVariables.get(variable) ?? this._resolve(variable, undefined, undefined, undefined, false);
+  }
+
+  /**
+   * Gets the value of the environment variable like `getOrDefault`, wrapped in a `Secret` so it is redacted when logged, and marks
+   * the variable as a secret.
+   *
+   * @example
+   * ```typescript
+   * const password = env.getSecret('DB_PASSWORD');
+   *
+   * console.log(password); // Secret [REDACTED]
+   * connect({ password: password.reveal() });
+   * ```
+   * @param {string} key The key of the environment variable.
+   * @param {DefaultValueGetter<T>} [defaultValue] The default value of the environment variable.
+   * @param {EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType} [optionalType] The type of the environment variable.
+   * @param {IGetOrDefaultOptions} [options] The options for this call.
+   * @template T The type of the environment variable.
+   * @returns {Secret<T>} The value of the environment variable, wrapped in a `Secret`.
+   * @throws {EnvironmentVariableParseError} If the value cannot be converted to its type in strict mode.
+   */
+  public getSecret<T = string>(
+    key: string,
+    defaultValue?: DefaultValueGetter<T>,
+    optionalType?: EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType,
+    options?: IGetOrDefaultOptions,
+  ): Secret<T> {
+    const variable = this._qualify(key);
+
+    // Marked before it is read, so a value that fails to convert is not included in the error.
+    this._secretVariables.add(variable);
+
+    return new Secret(this._resolve<T>(variable, defaultValue, optionalType, options).value);
+  }
+
+  /**
+   * Marks the variable as a secret, so its value is masked in dumps.
+   * @param {string} variable The variable to mark.
+   * @returns {void} Nothing.
+   */
+  public markSecret(variable: string): void {
+    this._secretVariables.add(this._qualify(variable, false));
+  }
+
+  /**
+   * Returns true if the variable is a secret, because it was marked as one, declared as one with the `env` decorator or its name
+   * matches one of the secret patterns.
+   * @param {string} variable The variable to check.
+   * @returns {boolean} True if the variable is a secret.
+   */
+  public isSecret(variable: string): boolean {
+    return this._isSecret(this._qualify(variable));
+  }
+
+  /**
+   * Declares other names the variable can be set by, replacing the names declared before.
+   *
+   * The variable is looked up by its own name first, then by its aliases in order and then by its deprecated names in order. The
+   * first time the variable is read through a deprecated name, a deprecation warning is reported. In a scoped environment the names
+   * are prefixed like the variable.
+   *
+   * @example
+   * ```typescript
+   * env.alias('CACHE_REDIS_URL', { aliases: ['CACHE_URL'], deprecated: ['REDIS_URL'] });
+   *
+   * // With only REDIS_URL set, this warns that REDIS_URL is deprecated and returns its value.
+   * env.getOrDefault('CACHE_REDIS_URL', 'redis://localhost:6379');
+   * ```
+   * @param {string} variable The name of the variable.
+   * @param {IVariableAliases} aliases The aliases and deprecated names of the variable.
+   * @returns {void} Nothing.
+   */
+  public alias(variable: string, aliases: IVariableAliases): void {
+    this._aliases.set(this._qualify(variable, false), this._qualifyAliases(aliases));
+  }
+
+  /**
+   * Lists every variable this environment has read, with its value, source and type. The values of secrets are masked.
+   *
+   * @example
+   * ```typescript
+   * env.getOrDefault('PORT', 8080);
+   * env.getOrDefault('DB_PASSWORD', '');
+   *
+   * env.dump();
+   * // {
+   * //   DB_PASSWORD: { value: '[REDACTED]', source: 'process', type: 'string', secret: true },
+   * //   PORT: { value: '8080', source: 'default', type: 'number', secret: false },
+   * // }
+   * ```
+   * @returns {Record<string, IEnvironmentVariableDump>} The variables that were read, sorted by name.
+   */
+  public dump(): Record<string, IEnvironmentVariableDump> {
+    const dump: Record<string, IEnvironmentVariableDump> = {};
+    const variables = [...this._accessedVariables.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+    for (const [variable, { value, type, source, provider }] of variables) {
+      const secret = this._isSecret(variable);
+      const serialized = value === undefined || value === null ? undefined : typeConverters.serialize(value, type);
+
+      dump[variable] = { value: secret && serialized !== undefined ? Secret.mask : serialized, source, type, secret };
+
+      if (provider !== undefined) dump[variable].provider = provider;
+    }
+
+    return dump;
+  }
+
+  /**
+   * Returns the same as `dump`, so the environment can be passed to `JSON.stringify` directly.
+   * @returns {Record<string, IEnvironmentVariableDump>} The variables that were read, sorted by name.
+   */
+  public toJSON(): Record<string, IEnvironmentVariableDump> {
+    return this.dump();
+  }
+
+  /**
+   * Initializes the state of the environment, which `scope` does for its sub-environments without running the constructor again.
+   * @param {IEnvironmentOptions} [options] The options for the environment.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
+   */
+  private _init(options?: IEnvironmentOptions): void {
+    this._options = { interpolate: true, ...options };
+    this._providers = [...(options?.providers ?? [new ProcessEnvProvider()])];
+    this._aliases = new Map(Object.entries(options?.aliases?.variables ?? {}));
+    this._overriddenVariables = new Map();
+    this._overrideScopes = new AsyncLocalStorage<Map<string, unknown>>();
+    this._loadedVariables = new Map();
+    this._loadedFiles = [];
+    this._overrideProcessEnv = false;
+    this._secretCache = new Map();
+    this._secretVariables = new Set();
+    this._reportedWarnings = new Set();
+    this._accessedVariables = new Map();
+    this._dependencyFrames = [];
+    this._readers = new Map();
+    this._populatedVariables = new Map();
+    this._watchers = [];
+    this._prefix = '';
+    this._scopeOptions = {};
+  }
+
+  /**
+   * Checks the rules against the resolved values of the schema. The variables that are not in the schema are read as strings.
+   * @param {IRule[]} rules The rules.
+   * @param {Schema} schema The schema.
+   * @param {Record<string, unknown>} values The resolved values, keyed like the schema.
+   * @returns {IEnvironmentValidationIssue[]} The problems that were found.
+   * @internal This is a private member.
+   */
+  private _checkRules(rules: IRule[], schema: Schema, values: Record<string, unknown>): IEnvironmentValidationIssue[] {
+    const properties = new Map(Object.entries(schema).map(([property, entry]) => [entry.name ?? property, property]));
+
+    const get = (name: string) => {
+      if (!properties.has(name)) return this._getRawValue(this._qualify(name));
+
+      const value = values[properties.get(name)];
+
+      return value instanceof Secret ? value.reveal() : value;
+    };
+
+    return rules.flatMap((rule) => {
+      try {
+        return rule.check(get);
+      } catch (error) {
+        return [{ variable: rule.variables.join(', '), message: (error as Error).message }];
+      }
+    });
+  }
+
+  /**
+   * Gets the environment this environment was scoped from, or itself if it is not scoped.
+   * @returns {Environment} The root environment.
+   * @internal This is a private member.
+   */
+  private get _root(): Environment {
+    return this._parent === undefined ? this : this._parent._root;
+  }
+
+  /**
+   * Gets the fully qualified name of the variable, with the prefixes of this environment and the environments it was scoped from.
+   * @param {string} key The key of the environment variable.
+   * @param {boolean} [fallback] If true, falls back to the unprefixed name if the prefixed variable is not set and the scope
+   * allows it.
+   * @returns {string} The fully qualified name.
+   * @internal This is a private member.
+   */
+  private _qualify(key: string, fallback = true): string {
+    if (this._parent === undefined) return key;
+
+    const name = this._parent._qualify(this._prefix + key, fallback);
+    if (!fallback || !this._scopeOptions.fallback || this._isSet(name)) return name;
+
+    const unprefixed = this._parent._qualify(key, fallback);
+
+    return this._isSet(unprefixed) ? unprefixed : name;
+  }
+
+  /**
+   * Returns true if the fully qualified variable is overridden or set.
+   * @param {string} name The fully qualified name of the variable.
+   * @returns {boolean} True if the variable is set.
+   * @internal This is a private member.
+   */
+  private _isSet(name: string): boolean {
+    return this._isOverridden(name) || this._lookupRawValue(name) !== undefined;
+  }
+
+  /**
+   * Returns true if the overrides of this environment should be read and written through its parent.
+   * @returns {boolean} True if the overrides are shared with the parent.
+   * @internal This is a private member.
+   */
+  private _sharesOverrides(): boolean {
+    return this._parent !== undefined && this._scopeOptions.overrides !== 'inherited';
+  }
+
+  /**
+   * Returns true if the fully qualified variable is overridden.
+   * @param {string} name The fully qualified name of the variable.
+   * @returns {boolean} True if the variable is overridden.
+   * @internal This is a private member.
+   */
+  private _isOverridden(name: string): boolean {
+    if (this._sharesOverrides()) return this._parent._isOverridden(name);
+
+    const scope = this._overrideScopes.getStore();
+    if (scope?.has(name)) return scope.get(name) !== Environment._removedOverride;
+
+    return this._overriddenVariables.has(name) || (this._parent?._isOverridden(name) ?? false);
+  }
+
+  /**
+   * Returns the value of the fully qualified overridden variable.
+   * @param {string} name The fully qualified name of the variable.
+   * @returns {unknown} The value of the variable, or undefined if it is not overridden.
+   * @internal This is a private member.
+   */
+  private _getOverride(name: string): unknown {
+    if (this._sharesOverrides()) return this._parent._getOverride(name);
+
+    const scope = this._overrideScopes.getStore();
+    if (scope?.has(name)) {
+      const value = scope.get(name);
+
+      return value === Environment._removedOverride ? undefined : value;
+    }
+
+    if (this._overriddenVariables.has(name)) return this._overriddenVariables.get(name);
+
+    return this._parent?._getOverride(name);
+  }
+
+  /**
+   * Overrides the fully qualified variable, in the current `withOverrides` scope if there is one.
+   * @param {string} name The fully qualified name of the variable.
+   * @param {unknown} value The value to set.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
+   */
+  private _setOverride(name: string, value: unknown): void {
+    if (this._sharesOverrides()) return this._parent._setOverride(name, value);
+
+    (this._overrideScopes.getStore() ?? this._overriddenVariables).set(name, value);
+  }
+
+  /**
+   * Removes the override of the fully qualified variable, in the current `withOverrides` scope if there is one.
+   * @param {string} name The fully qualified name of the variable.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
+   */
+  private _removeOverride(name: string): void {
+    if (this._sharesOverrides()) return this._parent._removeOverride(name);
+
+    const scope = this._overrideScopes.getStore();
+
+    if (scope !== undefined) scope.set(name, Environment._removedOverride);
+    else this._overriddenVariables.delete(name);
+  }
+
+  /**
+   * Runs the function with the fully qualified variables overridden within its async context.
+   * @param {Map<string, unknown>} overrides The fully qualified variables to override.
+   * @param {Function} fn The function to run.
+   * @template R The return type of the function.
+   * @returns {R} The return value of the function.
+   * @internal This is a private member.
+   */
+  private _runWithOverrides<R>(overrides: Map<string, unknown>, fn: () => R): R {
+    if (this._sharesOverrides()) return this._parent._runWithOverrides(overrides, fn);
+
+    const scope = new Map(this._overrideScopes.getStore());
+
+    for (const [name, value] of overrides) scope.set(name, value);
+
+    return this._overrideScopes.run(scope, fn);
+  }
+
+  /**
+   * Returns true if the fully qualified variable is a secret.
+   * @param {string} name The fully qualified name of the variable.
+   * @returns {boolean} True if the variable is a secret.
+   * @internal This is a private member.
+   */
+  private _isSecret(name: string): boolean {
+    if (this._secretVariables.has(name) || this._parent?._isSecret(name)) return true;
+
+    const declared = getDeclaredVariables(Object.getPrototypeOf(this));
+    if (Object.values(declared).some((entry) => this._qualify(entry.name, false) === name && entry.secret)) return true;
+
+    return (this._options.secretPatterns ?? Environment._defaultSecretPatterns).some((pattern) =>
+      (pattern instanceof RegExp ? pattern : Environment._globToRegExp(pattern)).test(name),
+    );
+  }
+
+  /**
+   * Lists the fully qualified names of the overridden variables.
+   * @returns {string[]} The names of the overridden variables.
+   * @internal This is a private member.
+   */
+  private _listOverrides(): string[] {
+    if (this._sharesOverrides()) return this._parent._listOverrides();
+
+    const names = new Set([...this._overriddenVariables.keys(), ...(this._parent?._listOverrides() ?? [])]);
+
+    for (const [name, value] of this._overrideScopes.getStore() ?? []) {
+      if (value === Environment._removedOverride) names.delete(name);
+      else names.add(name);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Copies the plain objects and arrays within the value, leaving everything else as it is.
+   * @param {unknown} value The value to copy.
+   * @returns {unknown} The copy.
+   * @internal This is a private member.
+   */
+  private static _clonePlain(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map((item) => this._clonePlain(item));
 
-/**
- * A type that represents all the possible array types of environment variables. Use this if you want your environment variable to be of a specific array type or if you want the
- * default to be null or undefined.
- */
-export type EnvironmentVariableArrayType = `array<${EnvironmentVariableType}>`;
+    if (typeof value === 'object' && value !== null && [Object.prototype, null].includes(Object.getPrototypeOf(value)))
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this._clonePlain(item)]));
+
+    return value;
+  }
 
-/**
- * A class for loading environment variables from .env files programmatically.
- *
- * Also provides methods for checking if the current environment is inside of a docker container.
- */
-export default class Environment {
   /**
+   * Finds the key of the container that a segment of a variable name binds to.
+   * @param {Record<string | number, unknown>} container The object or array being bound.
+   * @param {string} segment The segment of the variable name.
+   * @returns {string | number} The index if the container is an array, otherwise the matching key or the segment in camel case.
    * @internal This is a private member.
    */
-  private static _isDocker?: boolean = undefined;
+  private static _matchKey(container: Record<string | number, unknown>, segment: string): string | number {
+    if (Array.isArray(container)) return /^\d+$/.test(segment) ? Number(segment) : segment;
+
+    const normalize = (key: string) => key.replace(/_/g, '').toLowerCase();
+
+    return (
+      Object.keys(container).find((key) => normalize(key) === normalize(segment)) ??
+      segment.toLowerCase().replace(/_+([a-z0-9])/g, (_, character: string) => character.toUpperCase())
+    );
+  }
 
   /**
+   * Gets the absolute paths of the .env files to load, in order of precedence, lowest first.
+   * @param {IEnvFileLoadOptions} [options] The options for loading the files.
+   * @returns {string[]} The absolute paths of the files, whether they exist or not.
    * @internal This is a private member.
    */
-  private _overriddenVariables: Map<string, unknown> = new Map();
+  private _getEnvFiles(options?: IEnvFileLoadOptions): string[] {
+    const directory = path.resolve(options?.directory ?? process.cwd());
+    const nodeEnv = options?.nodeEnv ?? process.env.NODE_ENV;
+
+    let files = options?.files;
+    if (files === undefined) {
+      files = ['.env', '.env.local'];
+
+      if (nodeEnv) files.push(`.env.${nodeEnv}`, `.env.${nodeEnv}.local`);
+    }
+
+    return files.map((file) => path.resolve(directory, file));
+  }
 
   /**
-   * Returns true if the current variable is overridden.
-   * @param {string} variable The variable to check.
-   * @returns {boolean} True if the variable is overridden.
+   * Emits the error as an `error` event if anything is listening for it, so a failed reload does not crash the process.
+   * @param {Error} error The error.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
    */
-  public isVariableOverridden(variable: string): boolean {
-    return this._overriddenVariables.has(variable);
+  private _emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) this.emit('error', error);
   }
 
   /**
-   * Returns the value of the overridden variable.
-   * @param {string} variable The variable to get the value of.
-   * @template T The type of the variable.
-   * @returns {T} The value of the variable.
+   * Reads every variable that was read before again with the same default value and type, and emits a `change` event for every
+   * variable whose value changed.
+   * @returns {IEnvironmentChangeEvent[]} The changes.
+   * @internal This is a private member.
    */
-  public getOverridenVariable<T = unknown>(variable: string): T {
-    return this._overriddenVariables.get(variable) as unknown as T;
+  private _rereadVariables(): IEnvironmentChangeEvent[] {
+    const changes: IEnvironmentChangeEvent[] = [];
+
+    for (const [key, { defaultValue, optionalType, options }] of this._readers) {
+      const oldValue = this._accessedVariables.get(key)?.value;
+      let newValue: unknown;
+
+      try {
+        newValue = this._resolve(key, defaultValue, optionalType, options).value;
+      } catch (error) {
+        this._emitError(error as Error);
+
+        continue;
+      }
+
+      if (!isDeepStrictEqual(oldValue, newValue)) changes.push({ key, oldValue, newValue });
+    }
+
+    for (const change of changes) this.emit('change', change);
+
+    return changes;
   }
 
   /**
-   * Sets the value of the overridden variable.
-   * @param {string} variable The variable to set the value of.
-   * @param {T} value The value to set.
-   * @template T The type of the variable.
-   * @returns {void} Nothing.
+   * Loads the values of the async providers and reads the variables that were read before again.
+   * @param {boolean} dueOnly If true, only the providers whose values have expired or have no TTL are loaded.
+   * @returns {Promise<IEnvironmentChangeEvent[]>} The changes.
+   * @throws {RemoteSourceError} If a provider that never loaded fails to load.
+   * @internal This is a private member.
    */
-  public overrideVariable<T = unknown>(variable: string, value: T): void {
-    this._overriddenVariables.set(variable, value);
+  private async _load(dueOnly: boolean): Promise<IEnvironmentChangeEvent[]> {
+    if (this._parent !== undefined) {
+      await this._parent._load(dueOnly);
+    } else {
+      const providers = this._providers
+        .filter(Environment._isAsyncProvider)
+        .filter(({ status }) => !dueOnly || status.stale || status.expiresAt === undefined);
+
+      const results = await Promise.allSettled(providers.map((provider) => provider.load()));
+
+      for (const [index, result] of results.entries()) {
+        if (result.status === 'fulfilled') continue;
+
+        // A provider without values to fall back to leaves the environment unusable.
+        if (providers[index].status.loadedAt === undefined) throw result.reason;
+
+        this._emitError(result.reason);
+      }
+    }
+
+    return this._rereadVariables();
   }
 
   /**
-   * Removes the overridden variable.
-   * @param {string} variable The variable to remove.
-   * @returns {void} Nothing.
+   * Determines if a provider loads its values asynchronously.
+   * @param {IEnvironmentProvider} provider The provider.
+   * @returns {boolean} True if the provider has a `load` method.
+   * @internal This is a private member.
    */
-  public removeOverriddenVariable(variable: string): void {
-    this._overriddenVariables.delete(variable);
+  private static _isAsyncProvider(provider: IEnvironmentProvider): provider is IAsyncEnvironmentProvider {
+    return typeof (provider as IAsyncEnvironmentProvider).load === 'function';
   }
 
   /**
-   * Tries to get then deserialize the value of the environment variable..
-   *
+   * Resolves the value of the environment variable, recording where it came from.
    * @param {string} key The key of the environment variable.
    * @param {DefaultValueGetter<T>} [defaultValue] The default value of the environment variable.
-   * @param {EnvironmentVariableType | EnvironmentVariableArrayType} [optionalType] The type of the environment variable.
+   * @param {string} [optionalType] The type of the environment variable.
+   * @param {IGetOrDefaultOptions} [options] The options for this call.
+   * @param {boolean} [record] If false, the variable is resolved without recording it as read, for dumps and hot reload.
    * @template T The type of the environment variable.
-   * @returns {T} The value of the environment variable.
+   * @returns {IResolvedVariable<T>} The value of the environment variable and where it came from.
+   * @internal This is a private member.
    */
-  public getOrDefault<T = unknown>(
+  private _resolve<T>(
     key: string,
     defaultValue?: DefaultValueGetter<T>,
-    optionalType?: EnvironmentVariableType | EnvironmentVariableArrayType,
-  ): T {
-    if (this.isVariableOverridden(key)) return this.getOverridenVariable(key);
+    optionalType?: string,
+    options?: IGetOrDefaultOptions,
+    record = true,
+  ): IResolvedVariable<T> {
+    const reader: IVariableReader = { defaultValue, optionalType, options };
+
+    if (defaultValue instanceof StageDefaults) defaultValue = defaultValue.resolve(this.stage);
 
     let type: string = optionalType ?? typeof defaultValue;
 
     // If default value is null, undefined or any type that cannot be inferred then throw
     if (defaultValue === null || defaultValue === undefined) type = optionalType || 'string';
 
-    const value = process.env[key];
+    const reportedType = defaultValue instanceof RegExp ? 'regexp' : type;
+
+    let resolved: IResolvedVariable<T>;
+
+    if (this._isOverridden(key)) {
+      resolved = {
+        variable: key,
+        value: this._getOverride(key) as T,
+        type: reportedType,
+        source: 'override',
+        rawValue: undefined,
+        dependencies: [],
+      };
+    } else {
+      const value = this._getRawValue(key);
+      const strict = options?.strict ?? this._options.strict ?? false;
+      const arrayOptions = { ...this._options.array, ...options?.array };
+      const dependencies: IResolvedVariable[] = [];
+      let computed = false;
+
+      // Collect the variables that a default value function reads while it runs.
+      let trackedDefault: DefaultValueGetter<T> = defaultValue;
+      if (typeof defaultValue === 'function') {
+        trackedDefault = () => {
+          computed = true;
+          this._dependencyFrames.push(dependencies);
+
+          try {
+            return (defaultValue as () => T).call(null);
+          } finally {
+            this._dependencyFrames.pop();
+          }
+        };
+
+        // Only the function type and the named types call the default value function themselves.
+        if (value === undefined && type !== 'function' && !typeConverters.hasConverter(type))
+          trackedDefault = (trackedDefault as () => T)();
+      }
+
+      let result: T;
+
+      try {
+        result = this._convert(value, trackedDefault, type, strict, arrayOptions);
+      } catch (error) {
+        if (!(error instanceof TypeConversionError)) throw error;
+
+        // The named types reject invalid values whether or not strict mode is on, so outside of it they fall back to the default.
+        if (!strict) {
+          result = typeof trackedDefault === 'function' ? (trackedDefault as () => T)() : (trackedDefault as T);
+        } else if (this._isSecret(key)) {
+          // The conversion error and its causes include the value, which must not leak for secrets.
+          throw new EnvironmentVariableParseError(key, undefined, reportedType, undefined);
+        } else {
+          throw new EnvironmentVariableParseError(key, value, reportedType, error);
+        }
+      }
+
+      const raw = value === undefined ? undefined : this._lookupRawValue(key);
+
+      resolved = {
+        variable: key,
+        value: result,
+        type: reportedType,
+        source: raw?.source ?? (computed ? 'computed' : 'default'),
+        rawValue: value,
+        dependencies,
+      };
+
+      if (raw?.provider !== undefined) resolved.provider = raw.provider;
+      if (raw?.file !== undefined) resolved.file = raw.file;
+      if (raw?.line !== undefined) resolved.line = raw.line;
+      if (raw?.alias !== undefined) resolved.alias = raw.alias;
+    }
+
+    if (!record) return resolved;
+
+    this._accessedVariables.set(key, resolved);
+    this._readers.set(key, reader);
+    this._dependencyFrames[this._dependencyFrames.length - 1]?.push(resolved);
 
-    let arrayType: EnvironmentVariableType | undefined = undefined;
+    return resolved;
+  }
+
+  /**
+   * Converts the raw value of an environment variable to its type.
+   * @param {string | undefined} value The raw value of the environment variable.
+   * @param {DefaultValueGetter<T>} defaultValue The default value of the environment variable.
+   * @param {string} type The type of the environment variable.
+   * @param {boolean} strict If true, conversion failures throw a TypeConversionError.
+   * @param {IArrayParseOptions} arrayOptions The options for splitting array and map values.
+   * @template T The type of the environment variable.
+   * @returns {T} The converted value.
+   * @internal This is a private member.
+   */
+  private _convert<T>(
+    value: string | undefined,
+    defaultValue: DefaultValueGetter<T>,
+    type: string,
+    strict: boolean,
+    arrayOptions: IArrayParseOptions,
+  ): T {
+    const mapTypes = Environment._mapTypeRegex.exec(type);
+
+    if (mapTypes !== null) {
+      if (value === undefined) return defaultValue as unknown as T;
+
+      return typeConverters.toMap(
+        typeConverters.splitMap(value, arrayOptions),
+        (key) => this._convertItem(key, mapTypes[1].trim(), strict),
+        (item) => this._convertItem(item, mapTypes[2].trim(), strict),
+      ) as unknown as T;
+    }
 
     if (type.startsWith('array<')) {
-      arrayType = type.replace('array<', '').replace('>', '') as EnvironmentVariableType;
+      const arrayType = type.slice('array<'.length, -1);
+
+      if (value === undefined) return defaultValue as unknown as T;
+
+      return typeConverters.toArray(typeConverters.splitArray(value, arrayOptions), (item) =>
+        this._convertItem(item, arrayType, strict),
+      ) as unknown as T;
+    }
+
+    if (typeConverters.hasConverter(type)) {
+      if (value === undefined)
+        return typeof defaultValue === 'function' ? (defaultValue as () => T)() : (defaultValue as T);
 
-      type = 'array';
+      return typeConverters.convert<T>(type, value, strict);
     }
 
     switch (type) {
       case 'boolean':
-        return typeConverters.toBoolean(value, defaultValue as boolean) as unknown as T;
+        return typeConverters.toBoolean(value, defaultValue as boolean, strict) as unknown as T;
       case 'number':
-        return parseFloat(value ?? defaultValue?.toString()) as unknown as T;
+        return typeConverters.toNumber(value ?? defaultValue?.toString(), strict) as unknown as T;
       case 'bigint':
-        return BigInt(value ?? defaultValue?.toString()) as unknown as T;
+        return typeConverters.toBigInt(value ?? defaultValue?.toString(), strict) as unknown as T;
       case 'function':
         return (value as unknown as T) || (defaultValue as () => T)?.call(null);
-      case 'array':
-        // eslint-disable-next-line no-case-declarations
-        const arr = value?.split(',');
-
-        if (arr === undefined) return defaultValue as unknown as T;
-
-        switch (arrayType) {
-          case 'boolean':
-            return typeConverters.toArray<boolean>(arr, (v) => typeConverters.toBoolean(v)) as unknown as T;
-          case 'number':
-            return typeConverters.toArray<number>(arr, (v) => parseFloat(v)) as unknown as T;
-          case 'bigint':
-            return typeConverters.toArray<bigint>(arr, (v) => BigInt(v)) as unknown as T;
-          case 'object':
-            return typeConverters.toArray<object>(arr, (v) => JSON.parse(v)) as unknown as T;
-          case 'regexp':
-            return typeConverters.toArray<RegExp>(arr, (v) => new RegExp(v)) as unknown as T;
-          default:
-            return arr as unknown as T;
-        }
       case 'regexp':
-        return new RegExp(value ?? (defaultValue as RegExp).source, (defaultValue as RegExp).flags) as unknown as T;
+        return typeConverters.toRegExp(
+          value ?? (defaultValue as RegExp)?.source,
+          (defaultValue as RegExp)?.flags,
+          strict,
+        ) as unknown as T;
       default:
         if (Array.isArray(defaultValue)) {
-          return (value?.split(',') as unknown as T) ?? defaultValue;
+          return value === undefined ? defaultValue : (typeConverters.splitArray(value, arrayOptions) as unknown as T);
+        }
+        if (defaultValue instanceof Map) {
+          return (value === undefined
+            ? defaultValue
+            : new Map(typeConverters.splitMap(value, arrayOptions))) as unknown as T;
         }
         if (defaultValue instanceof RegExp) {
-          return new RegExp(value ?? defaultValue.source, defaultValue.flags) as unknown as T;
+          return typeConverters.toRegExp(value ?? defaultValue.source, defaultValue.flags, strict) as unknown as T;
         }
         if (type === 'object') {
-          return JSON.parse(value ?? JSON.stringify(defaultValue)) as unknown as T;
+          return typeConverters.toObject(value ?? JSON.stringify(defaultValue), strict) as unknown as T;
         }
 
         return (value as unknown as T) || (defaultValue as unknown as T);
     }
   }
 
+  /**
+   * Converts a single item of an array or map environment variable to its type.
+   * @param {string} value The raw value of the item.
+   * @param {string} type The type of the item.
+   * @param {boolean} strict If true, conversion failures throw a TypeConversionError.
+   * @returns {unknown} The converted item.
+   * @internal This is a private member.
+   */
+  private _convertItem(value: string, type: string, strict: boolean): unknown {
+    switch (type) {
+      case 'boolean':
+        return typeConverters.toBoolean(value, undefined, strict);
+      case 'number':
+        return typeConverters.toNumber(value, strict);
+      case 'bigint':
+        return typeConverters.toBigInt(value, strict);
+      case 'object':
+        return typeConverters.toObject(value, strict);
+      case 'regexp':
+        return typeConverters.toRegExp(value, undefined, strict);
+      default:
+        if (typeConverters.hasConverter(type)) return typeConverters.convert(type, value, strict);
+
+        return value;
+    }
+  }
+
+  /**
+   * Gets the value of the environment variable from the providers or the loaded .env files, with its references expanded.
+   * @param {string} key The key of the environment variable.
+   * @returns {string | undefined} The value of the environment variable.
+   * @internal This is a private member.
+   */
+  private _getRawValue(key: string): string | undefined {
+    const raw = this._lookupRawValue(key);
+
+    if (raw === undefined || !this._isExpanded(raw)) return raw?.value;
+
+    return interpolator.expand(key, raw.value, (name) => {
+      if (this._isOverridden(name)) return { value: typeConverters.serialize(this._getOverride(name)), literal: true };
+
+      const referenced = this._lookupRawValue(name);
+
+      return referenced && { value: referenced.value, literal: !this._isExpanded(referenced) };
+    });
+  }
+
+  /**
+   * Determines if the references within a value are expanded, which depends on where the value came from.
+   * @param {ISourcedRawValue} raw The unexpanded value.
+   * @returns {boolean} True if the references within the value are expanded.
+   * @internal This is a private member.
+   */
+  private _isExpanded(raw: ISourcedRawValue): boolean {
+    if (raw.literal || this._options.interpolate === false) return false;
+
+    return this._options.interpolate === 'all' || raw.source === 'file' || raw.envFile === true;
+  }
+
+  /**
+   * Looks up the unexpanded value of the environment variable by its name, then by its aliases and deprecated names.
+   * @param {string} key The key of the environment variable.
+   * @returns {ISourcedRawValue | undefined} The unexpanded value of the environment variable.
+   * @throws {EnvironmentVariableConflictError} If more than one of the names is set to different values, unless conflicts only warn.
+   * @internal This is a private member.
+   */
+  private _lookupRawValue(key: string): ISourcedRawValue | undefined {
+    const { aliases = [], deprecated = [] } = this._getAliases(key) ?? {};
+    if (aliases.length === 0 && deprecated.length === 0) return this._lookupNamedValue(key);
+
+    const found = [key, ...aliases, ...deprecated]
+      .map((name) => ({ name, raw: this._lookupNamedValue(name) }))
+      .filter(({ raw }) => raw !== undefined);
+
+    if (found.length === 0) return undefined;
+
+    const [{ name, raw }] = found;
+    const conflicting = found.filter((other) => other.raw.value !== raw.value);
+
+    if (conflicting.length > 0) {
+      const error = new EnvironmentVariableConflictError(key, [name, ...conflicting.map((other) => other.name)]);
+      if ((this._root._options.aliases?.conflicts ?? 'error') === 'error') throw error;
+
+      this._warn(error.message, 'conflict');
+    }
+
+    if (name === key) return raw;
+    if (deprecated.includes(name)) this._warn(`${name} is deprecated, use ${key} instead`, 'deprecated');
+
+    return { ...raw, alias: name };
+  }
+
+  /**
+   * Gets the aliases and deprecated names of the fully qualified variable, declared with `alias`, the options, a schema or the `env`
+   * decorator.
+   * @param {string} name The fully qualified name of the variable.
+   * @returns {IVariableAliases | undefined} The aliases and deprecated names, if any were declared.
+   * @internal This is a private member.
+   */
+  private _getAliases(name: string): IVariableAliases | undefined {
+    const declared = this._schemaAliases?.get(name) ?? this._aliases.get(name) ?? this._parent?._getAliases(name);
+    if (declared !== undefined) return declared;
+
+    const entry = Object.values(getDeclaredVariables(Object.getPrototypeOf(this))).find(
+      (variable) => this._qualify(variable.name, false) === name,
+    );
+
+    if (entry?.aliases === undefined && entry?.deprecated === undefined) return undefined;
+
+    return this._qualifyAliases(entry);
+  }
+
+  /**
+   * Prefixes the aliases and deprecated names like the variables of this environment.
+   * @param {IVariableAliases} aliases The aliases and deprecated names.
+   * @returns {IVariableAliases} The fully qualified aliases and deprecated names.
+   * @internal This is a private member.
+   */
+  private _qualifyAliases(aliases: IVariableAliases): IVariableAliases {
+    return {
+      aliases: aliases.aliases?.map((name) => this._qualify(name, false)),
+      deprecated: aliases.deprecated?.map((name) => this._qualify(name, false)),
+    };
+  }
+
+  /**
+   * Reports a warning through the warning hook of the root environment, unless it was reported before.
+   * @param {string} message The warning.
+   * @param {'deprecated' | 'conflict'} type The type of the warning.
+   * @returns {void} Nothing.
+   * @internal This is a private member.
+   */
+  private _warn(message: string, type: 'deprecated' | 'conflict'): void {
+    const root = this._root;
+    if (root._reportedWarnings.has(message)) return;
+
+    root._reportedWarnings.add(message);
+
+    const onWarning =
+      root._options.aliases?.onWarning ??
+      ((warning: string) => process.emitWarning(warning, type === 'deprecated' ? 'DeprecationWarning' : 'Warning'));
+
+    onWarning(message, type);
+  }
+
+  /**
+   * Looks up the unexpanded value of the environment variable from the providers, the loaded .env files or its secret file, and
+   * decrypts it if it is encrypted. Variables whose values are decrypted are treated as secrets.
+   * @param {string} key The key of the environment variable.
+   * @returns {ISourcedRawValue | undefined} The unexpanded value of the environment variable.
+   * @throws {DecryptionError} If the value is encrypted but cannot be decrypted.
+   * @internal This is a private member.
+   */
+  private _lookupNamedValue(key: string): ISourcedRawValue | undefined {
+    if (this._parent !== undefined) return this._parent._lookupNamedValue(key);
+
+    const raw = this._lookupSetValue(key) ?? this._lookupSecretValue(key);
+    if (raw === undefined || !envCrypto.isEncrypted(raw.value)) return raw;
+
+    let value: string;
+
+    try {
+      value = envCrypto.decrypt(raw.value, this._getEncryptionKey());
+    } catch (error) {
+      throw new DecryptionError(key, error);
+    }
+
+    this._secretVariables.add(key);
+
+    return { ...raw, value };
+  }
+
+  /**
+   * Gets the key for decrypting values and .env files.
+   * @returns {EncryptionKey} The key.
+   * @throws {Error} If no key is set.
+   * @internal This is a private member.
+   */
+  private _getEncryptionKey(): EncryptionKey {
+    const { key, keyFile, keyVariable = 'ENV_ENCRYPTION_KEY' } = this._options.encryption ?? {};
+
+    if (key !== undefined) return key;
+    if (keyFile !== undefined) return this._readSecretFile(path.resolve(keyFile));
+
+    const value = (this._lookupSetValue(keyVariable) ?? this._lookupSecretValue(keyVariable))?.value;
+    if (!value) throw new Error(`No encryption key is set, set ${keyVariable} or the encryption options`);
+
+    return value;
+  }
+
+  /**
+   * Reads a .env file, decrypting it if it is encrypted as a whole.
+   * @param {string} fileName The absolute path of the file.
+   * @returns {string} The contents of the file.
+   * @throws {DecryptionError} If the file cannot be decrypted.
+   * @internal This is a private member.
+   */
+  private _readEnvFile(fileName: string): string {
+    const content = fs.readFileSync(fileName, 'utf8');
+    if (!envCrypto.isEncryptedFile(content)) return content;
+
+    try {
+      return envCrypto.decrypt(content.trim(), this._getEncryptionKey());
+    } catch (error) {
+      throw new DecryptionError(fileName, error);
+    }
+  }
+
+  /**
+   * Looks up the unexpanded value of the environment variable from the providers or the loaded .env files.
+   * @param {string} key The key of the environment variable.
+   * @returns {ISourcedRawValue | undefined} The unexpanded value of the environment variable.
+   * @internal This is a private member.
+   */
+  private _lookupSetValue(key: string): ISourcedRawValue | undefined {
+    const loaded = this._loadedVariables.get(key);
+    const fromFile: ISourcedRawValue = loaded && {
+      value: loaded.value,
+      literal: loaded.quote === '\'',
+      source: 'file',
+      file: loaded.file,
+      line: loaded.line,
+    };
+    const fromProviders = this._lookupProvidedValue(key);
+
+    if (this._overrideProcessEnv) return fromFile ?? fromProviders;
+
+    return fromProviders ?? fromFile;
+  }
+
+  /**
+   * Looks up the unexpanded value of the environment variable from the first provider that has it.
+   * @param {string} key The key of the environment variable.
+   * @returns {ISourcedRawValue | undefined} The unexpanded value of the environment variable.
+   * @internal This is a private member.
+   */
+  private _lookupProvidedValue(key: string): ISourcedRawValue | undefined {
+    for (const provider of this._providers) {
+      const provided = provider.get(key);
+      if (provided === undefined) continue;
+
+      if (provider instanceof ProcessEnvProvider) return { ...provided, source: 'process' };
+      if (provider instanceof EnvFileProvider)
+        return { ...provided, source: 'provider', provider: provider.name, envFile: true };
+
+      return { ...provided, source: 'provider', provider: provider.name };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Looks up the value of the environment variable from the file named by `<key>_FILE` or the secret directories.
+   * @param {string} key The key of the environment variable.
+   * @returns {ISourcedRawValue | undefined} The value of the secret, which is never interpolated.
+   * @throws {EnvironmentVariableSecretError} If the file named by `<key>_FILE` cannot be read.
+   * @internal This is a private member.
+   */
+  private _lookupSecretValue(key: string): ISourcedRawValue | undefined {
+    const { fileSuffix = true, dockerSecrets = false, directories = [] } = this._options.secrets ?? {};
+
+    const pointer = fileSuffix ? this._lookupSetValue(`${key}_FILE`)?.value : undefined;
+    if (pointer) {
+      const fileName = path.resolve(pointer);
+
+      try {
+        return { value: this._readSecretFile(fileName), literal: true, source: 'secret', file: fileName };
+      } catch (error) {
+        throw new EnvironmentVariableSecretError(key, fileName, error);
+      }
+    }
+
+    const searchDirectories = dockerSecrets ? [Environment._dockerSecretsDirectory, ...directories] : directories;
+
+    for (const directory of searchDirectories) {
+      for (const name of new Set([key, key.toLowerCase()])) {
+        const fileName = path.resolve(directory, name);
+
+        if (!this._secretCache.has(fileName) && !fs.existsSync(fileName)) continue;
+
+        return { value: this._readSecretFile(fileName), literal: true, source: 'secret', file: fileName };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Converts a pattern where `*` matches any characters to a case insensitive regular expression.
+   * @param {string} pattern The pattern.
+   * @returns {RegExp} The regular expression.
+   * @internal This is a private member.
+   */
+  private static _globToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${source}$`, 'i');
+  }
+
+  /**
+   * Reads the secret file, caching its contents.
+   * @param {string} fileName The absolute path of the secret file.
+   * @returns {string} The contents of the file, without trailing newlines.
+   * @internal This is a private member.
+   */
+  private _readSecretFile(fileName: string): string {
+    if (!this._secretCache.has(fileName))
+      this._secretCache.set(fileName, fs.readFileSync(fileName, 'utf8').replace(/[\r\n]+$/, ''));
+
+    return this._secretCache.get(fileName);
+  }
+
   /**
    * Determines if the current context has the .dockerenv file.
    * @returns {boolean} True if the current context has the .dockerenv file.
@@ -210,4 +2630,64 @@ export default class Environment {
 
     return this._isDocker;
   }
+
+  /**
+   * Detects the container engine, cgroup version and orchestrator the current context is running under.
+   *
+   * Unlike `isDocker`, the result is not cached, and it recognizes cgroup v2, Podman, containerd, CRI-O, LXC, Kubernetes pods and
+   * WSL. The container ID is read from `/proc/self/cgroup`, or from the mounts of `/proc/self/mountinfo` on cgroup v2.
+   *
+   * @example
+   * ```typescript
+   * const runtime = Environment.detectRuntime();
+   *
+   * if (runtime.kubernetes) console.log(`Running in container ${runtime.containerId} of a Kubernetes pod`);
+   * ```
+   * @param {IRuntimeDetectionOptions} [options] The options for detecting the runtime, such as the root of the filesystem to inspect.
+   * @returns {IRuntimeInfo} The runtime.
+   */
+  public static detectRuntime(options?: IRuntimeDetectionOptions): IRuntimeInfo {
+    return runtimeDetector.detect(options);
+  }
+
+  /**
+   * Determines if the current context is running in CI, because a CI provider is recognized or the `CI` variable is set.
+   * @param {NodeJS.ProcessEnv} [env] The environment variables to inspect, defaults to `process.env`.
+   * @returns {boolean} True if the current context is running in CI.
+   */
+  public static isCI(env?: NodeJS.ProcessEnv): boolean {
+    return platformDetector.isCI(env);
+  }
+
+  /**
+   * Detects the CI provider the current context is running on, such as GitHub Actions, GitLab, Jenkins, CircleCI or Buildkite, along
+   * with the build ID, build URL, branch and commit where the provider exposes them.
+   *
+   * @example
+   * ```typescript
+   * Environment.ciProvider();
+   * // { name: 'gitlab', buildId: '1234', buildUrl: 'https://gitlab.com/...', branch: 'main', commit: 'abc', pullRequest: false }
+   * ```
+   * @param {NodeJS.ProcessEnv} [env] The environment variables to inspect, defaults to `process.env`.
+   * @returns {ICIProvider | undefined} The CI provider, or undefined if it is not recognized.
+   */
+  public static ciProvider(env?: NodeJS.ProcessEnv): ICIProvider | undefined {
+    return platformDetector.detectCI(env);
+  }
+
+  /**
+   * Detects the cloud platform or PaaS the current context is running on, such as AWS Lambda, ECS, Cloud Run, Azure Functions,
+   * Heroku or Fly, along with the region, service, version and instance where the platform exposes them.
+   *
+   * @example
+   * ```typescript
+   * Environment.platform();
+   * // { name: 'gcp-cloud-run', service: 'api', version: 'api-00042-xyz' }
+   * ```
+   * @param {IPlatformDetectionOptions} [options] The options for detecting the platform.
+   * @returns {ICloudPlatform | undefined} The platform, or undefined if it is not recognized.
+   */
+  public static platform(options?: IPlatformDetectionOptions): ICloudPlatform | undefined {
+    return platformDetector.detectPlatform(options);
+  }
 }
@@ -0,0 +1,206 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: interpolator.ts
+    Description: A helper that expands shell style variable references within environment variable values.
+    Written by: Nikita Petko
+*/
+
+import EnvironmentVariableCycleError from './errors/environment_variable_cycle_error';
+import EnvironmentVariableInterpolationError from './errors/environment_variable_interpolation_error';
+
+/**
+ * Represents the raw value of a variable before it is interpolated.
+ *
+ * @internal This interface is only ingested internally.
+ */
+export interface IRawValue {
+  /**
+   * The raw value of the variable.
+   */
+  value: string;
+
+  /**
+   * If true, the value is taken as is and references within it are not expanded.
+   */
+  literal?: boolean;
+}
+
+/**
+ * Represents a method that looks up the raw value of a referenced variable.
+ *
+ * @internal This type is only ingested internally.
+ */
+export type RawValueLookup = (name: string) => IRawValue | undefined;
+
+/**
+ * A helper that expands shell style variable references within environment variable values.
+ *
+ * Supports the following syntax:
+ * - `${VAR}` expands to the value of `VAR`, or an empty string if it is not set.
+ * - `${VAR:-default}` expands to `default` if `VAR` is not set or empty, `${VAR-default}` only if it is not set.
+ * - `${VAR:?error}` throws `error` if `VAR` is not set or empty, `${VAR?error}` only if it is not set.
+ * - `$$` expands to a literal `$`.
+ *
+ * Defaults and error messages can themselves contain references.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class Interpolator {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _referenceRegex = /^([A-Za-z_][A-Za-z0-9_.]*)(?:(:?[-?])([\s\S]*))?$/;
+
+  /**
+   * Expands the references within the value of a variable.
+   *
+   * @example
+   * ```typescript
+   * import interpolator from '@lib/environment/interpolator';
+   *
+   * const variables = { DB_USER: { value: 'admin' } };
+   *
+   * interpolator.expand('DB_URL', 'postgres://${DB_USER}@${DB_HOST:-localhost}', (name) => variables[name]); // 'postgres://admin@localhost'
+   * ```
+   * @param {string} variable The name of the variable being expanded.
+   * @param {string} value The raw value of the variable.
+   * @param {RawValueLookup} lookup The method used to look up referenced variables.
+   * @param {string[]} [chain] The chain of variables currently being expanded, used to detect loops.
+   * @returns {string} The expanded value.
+   * @throws {EnvironmentVariableCycleError} If the variables reference each other in a loop.
+   * @throws {EnvironmentVariableInterpolationError} If the value is malformed or a `${VAR:?error}` reference fails.
+   */
+  public static expand(variable: string, value: string, lookup: RawValueLookup, chain: string[] = [variable]): string {
+    let result = '';
+
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] !== '$') {
+        result += value[i];
+
+        continue;
+      }
+
+      const next = value[i + 1];
+
+      if (next === '$') {
+        result += '$';
+        i++;
+
+        continue;
+      }
+
+      if (next !== '{') {
+        result += '$';
+
+        continue;
+      }
+
+      const end = this._findClosingBrace(value, i + 2);
+      if (end === -1)
+        throw new EnvironmentVariableInterpolationError(variable, `Unterminated reference at position ${i}`);
+
+      result += this._expandReference(variable, value.substring(i + 2, end), lookup, chain);
+      i = end;
+    }
+
+    return result;
+  }
+
+  /**
+   * Expands a single reference.
+   * @param {string} variable The name of the variable being expanded.
+   * @param {string} expression The reference without the surrounding `${` and `}`.
+   * @param {RawValueLookup} lookup The method used to look up referenced variables.
+   * @param {string[]} chain The chain of variables currently being expanded.
+   * @returns {string} The expanded reference.
+   * @internal This is a private member.
+   */
+  private static _expandReference(
+    variable: string,
+    expression: string,
+    lookup: RawValueLookup,
+    chain: string[],
+  ): string {
+    const match = this._referenceRegex.exec(expression);
+    if (match === null)
+      throw new EnvironmentVariableInterpolationError(variable, `Invalid reference '\${${expression}}'`);
+
+    const [, name, operator, operand] = match;
+    const value = this._resolve(name, lookup, chain);
+    const isMissing = value === undefined || (operator?.startsWith(':') && value === '');
+
+    switch (operator) {
+      case ':-':
+      case '-':
+        return isMissing ? this.expand(variable, operand, lookup, chain) : (value as string);
+      case ':?':
+      case '?':
+        if (isMissing)
+          throw new EnvironmentVariableInterpolationError(
+            variable,
+            operand ? this.expand(variable, operand, lookup, chain) : `${name} is not set`,
+          );
+
+        return value as string;
+      default:
+        return value ?? '';
+    }
+  }
+
+  /**
+   * Resolves and expands the value of a referenced variable.
+   * @param {string} name The name of the referenced variable.
+   * @param {RawValueLookup} lookup The method used to look up referenced variables.
+   * @param {string[]} chain The chain of variables currently being expanded.
+   * @returns {string | undefined} The expanded value, or undefined if the variable is not set.
+   * @internal This is a private member.
+   */
+  private static _resolve(name: string, lookup: RawValueLookup, chain: string[]): string | undefined {
+    const start = chain.indexOf(name);
+    if (start !== -1) throw new EnvironmentVariableCycleError([...chain.slice(start), name]);
+
+    const raw = lookup(name);
+    if (raw === undefined || raw.literal) return raw?.value;
+
+    return this.expand(name, raw.value, lookup, [...chain, name]);
+  }
+
+  /**
+   * Finds the brace that closes a reference, taking nested references into account.
+   * @param {string} value The value being expanded.
+   * @param {number} start The index just after the opening `${`.
+   * @returns {number} The index of the closing brace, or -1 if there is none.
+   * @internal This is a private member.
+   */
+  private static _findClosingBrace(value: string, start: number): number {
+    let depth = 1;
+
+    for (let i = start; i < value.length; i++) {
+      if (value[i] === '$' && (value[i + 1] === '$' || value[i + 1] === '{')) {
+        if (value[i + 1] === '{') depth++;
+        i++;
+
+        continue;
+      }
+
+      if (value[i] === '}' && --depth === 0) return i;
+    }
+
+    return -1;
+  }
+}
@@ -0,0 +1,532 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: platform_detector.ts
+    Description: Detects the CI provider and the cloud platform the process runs on.
+    Written by: Nikita Petko
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The CI providers that can be detected.
+ */
+export type CIProviderName =
+  | 'github-actions'
+  | 'gitlab'
+  | 'jenkins'
+  | 'circleci'
+  | 'buildkite'
+  | 'travis'
+  | 'azure-pipelines'
+  | 'bitbucket'
+  | 'teamcity'
+  | 'drone'
+  | 'appveyor'
+  | 'aws-codebuild';
+
+/**
+ * The cloud platforms that can be detected.
+ */
+export type CloudPlatformName =
+  | 'aws-lambda'
+  | 'aws-ecs'
+  | 'aws-ec2'
+  | 'gcp-cloud-functions'
+  | 'gcp-cloud-run'
+  | 'gcp-app-engine'
+  | 'gcp-compute-engine'
+  | 'azure-functions'
+  | 'azure-app-service'
+  | 'azure-vm'
+  | 'heroku'
+  | 'fly'
+  | 'render'
+  | 'railway'
+  | 'vercel'
+  | 'netlify';
+
+/**
+ * Describes the CI provider the process runs on.
+ */
+export interface ICIProvider {
+  /**
+   * The name of the provider.
+   */
+  name: CIProviderName;
+
+  /**
+   * The ID or number of the build, if the provider exposes it.
+   */
+  buildId?: string;
+
+  /**
+   * The URL of the build, if the provider exposes it.
+   */
+  buildUrl?: string;
+
+  /**
+   * The branch being built, if the provider exposes it.
+   */
+  branch?: string;
+
+  /**
+   * The commit being built, if the provider exposes it.
+   */
+  commit?: string;
+
+  /**
+   * True if the build is for a pull or merge request.
+   */
+  pullRequest: boolean;
+}
+
+/**
+ * Describes the cloud platform the process runs on.
+ */
+export interface ICloudPlatform {
+  /**
+   * The name of the platform.
+   */
+  name: CloudPlatformName;
+
+  /**
+   * The region the process runs in, if the platform exposes it.
+   */
+  region?: string;
+
+  /**
+   * The name of the function, service or application, if the platform exposes it.
+   */
+  service?: string;
+
+  /**
+   * The version or revision of the function, service or application, if the platform exposes it.
+   */
+  version?: string;
+
+  /**
+   * The ID of the instance, if the platform exposes it.
+   */
+  instanceId?: string;
+}
+
+/**
+ * Options for detecting the CI provider and the cloud platform.
+ */
+export interface IPlatformDetectionOptions {
+  /**
+   * The environment variables to inspect, defaults to `process.env`.
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * The root of the filesystem to inspect for the markers of virtual machines, defaults to `/`.
+   */
+  root?: string;
+}
+
+/**
+ * A source of a piece of metadata, which is either the names of the variables to read, the first that is set wins, or a function.
+ *
+ * @internal This type is only ingested internally.
+ */
+type MetadataSource = string[] | ((env: NodeJS.ProcessEnv) => string | undefined);
+
+/**
+ * Describes how to recognize a CI provider or cloud platform, and where to read its metadata from.
+ *
+ * @internal This interface is only ingested internally.
+ */
+interface IMarker<N extends string, K extends string> {
+  /**
+   * The name of the provider or platform.
+   */
+  name: N;
+
+  /**
+   * Determines if the process runs on the provider or platform.
+   */
+  detect: (env: NodeJS.ProcessEnv) => boolean;
+
+  /**
+   * The sources of the metadata.
+   */
+  metadata: Partial<Record<K, MetadataSource>>;
+}
+
+/**
+ * A helper that detects the CI provider and the cloud platform the process runs on from their well-known marker variables and
+ * files.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class PlatformDetector {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _ciProviders: IMarker<CIProviderName, Exclude<keyof ICIProvider, 'name'>>[] = [
+    {
+      name: 'github-actions',
+      detect: (env) => env.GITHUB_ACTIONS === 'true',
+      metadata: {
+        buildId: ['GITHUB_RUN_ID'],
+        buildUrl: (env) =>
+          env.GITHUB_RUN_ID && `${env.GITHUB_SERVER_URL}/${env.GITHUB_REPOSITORY}/actions/runs/${env.GITHUB_RUN_ID}`,
+        branch: (env) => env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME,
+        commit: ['GITHUB_SHA'],
+        pullRequest: (env) => (env.GITHUB_EVENT_NAME?.startsWith('pull_request') ? 'true' : undefined),
+      },
+    },
+    {
+      name: 'gitlab',
+      detect: (env) => env.GITLAB_CI !== undefined,
+      metadata: {
+        buildId: ['CI_PIPELINE_ID'],
+        buildUrl: ['CI_PIPELINE_URL'],
+        branch: ['CI_MERGE_REQUEST_SOURCE_BRANCH_NAME', 'CI_COMMIT_REF_NAME'],
+        commit: ['CI_COMMIT_SHA'],
+        pullRequest: ['CI_MERGE_REQUEST_IID'],
+      },
+    },
+    {
+      name: 'jenkins',
+      detect: (env) => env.JENKINS_URL !== undefined && env.BUILD_ID !== undefined,
+      metadata: {
+        buildId: ['BUILD_ID'],
+        buildUrl: ['BUILD_URL'],
+        branch: ['CHANGE_BRANCH', 'BRANCH_NAME', 'GIT_BRANCH'],
+        commit: ['GIT_COMMIT'],
+        pullRequest: ['CHANGE_ID'],
+      },
+    },
+    {
+      name: 'circleci',
+      detect: (env) => env.CIRCLECI === 'true',
+      metadata: {
+        buildId: ['CIRCLE_BUILD_NUM'],
+        buildUrl: ['CIRCLE_BUILD_URL'],
+        branch: ['CIRCLE_BRANCH'],
+        commit: ['CIRCLE_SHA1'],
+        pullRequest: ['CIRCLE_PULL_REQUEST'],
+      },
+    },
+    {
+      name: 'buildkite',
+      detect: (env) => env.BUILDKITE === 'true',
+      metadata: {
+        buildId: ['BUILDKITE_BUILD_ID'],
+        buildUrl: ['BUILDKITE_BUILD_URL'],
+        branch: ['BUILDKITE_BRANCH'],
+        commit: ['BUILDKITE_COMMIT'],
+        pullRequest: ['BUILDKITE_PULL_REQUEST'],
+      },
+    },
+    {
+      name: 'travis',
+      detect: (env) => env.TRAVIS === 'true',
+      metadata: {
+        buildId: ['TRAVIS_BUILD_ID'],
+        buildUrl: ['TRAVIS_BUILD_WEB_URL'],
+        branch: ['TRAVIS_PULL_REQUEST_BRANCH', 'TRAVIS_BRANCH'],
+        commit: ['TRAVIS_COMMIT'],
+        pullRequest: ['TRAVIS_PULL_REQUEST'],
+      },
+    },
+    {
+      name: 'azure-pipelines',
+      detect: (env) => env.TF_BUILD?.toLowerCase() === 'true',
+      metadata: {
+        buildId: ['BUILD_BUILDID'],
+        buildUrl: (env) =>
+          env.BUILD_BUILDID &&
+          `${env.SYSTEM_COLLECTIONURI}${env.SYSTEM_TEAMPROJECT}/_build/results?buildId=${env.BUILD_BUILDID}`,
+        branch: ['SYSTEM_PULLREQUEST_SOURCEBRANCH', 'BUILD_SOURCEBRANCHNAME'],
+        commit: ['BUILD_SOURCEVERSION'],
+        pullRequest: ['SYSTEM_PULLREQUEST_PULLREQUESTID'],
+      },
+    },
+    {
+      name: 'bitbucket',
+      detect: (env) => env.BITBUCKET_BUILD_NUMBER !== undefined,
+      metadata: {
+        buildId: ['BITBUCKET_BUILD_NUMBER'],
+        branch: ['BITBUCKET_BRANCH'],
+        commit: ['BITBUCKET_COMMIT'],
+        pullRequest: ['BITBUCKET_PR_ID'],
+      },
+    },
+    {
+      name: 'teamcity',
+      detect: (env) => env.TEAMCITY_VERSION !== undefined,
+      metadata: { buildId: ['BUILD_NUMBER'] },
+    },
+    {
+      name: 'drone',
+      detect: (env) => env.DRONE === 'true',
+      metadata: {
+        buildId: ['DRONE_BUILD_NUMBER'],
+        buildUrl: ['DRONE_BUILD_LINK'],
+        branch: ['DRONE_SOURCE_BRANCH', 'DRONE_BRANCH'],
+        commit: ['DRONE_COMMIT_SHA'],
+        pullRequest: ['DRONE_PULL_REQUEST'],
+      },
+    },
+    {
+      name: 'appveyor',
+      detect: (env) => env.APPVEYOR?.toLowerCase() === 'true',
+      metadata: {
+        buildId: ['APPVEYOR_BUILD_ID'],
+        branch: ['APPVEYOR_PULL_REQUEST_HEAD_REPO_BRANCH', 'APPVEYOR_REPO_BRANCH'],
+        commit: ['APPVEYOR_REPO_COMMIT'],
+        pullRequest: ['APPVEYOR_PULL_REQUEST_NUMBER'],
+      },
+    },
+    {
+      name: 'aws-codebuild',
+      detect: (env) => env.CODEBUILD_BUILD_ID !== undefined,
+      metadata: {
+        buildId: ['CODEBUILD_BUILD_ID'],
+        buildUrl: ['CODEBUILD_PUBLIC_BUILD_URL'],
+        branch: ['CODEBUILD_WEBHOOK_HEAD_REF'],
+        commit: ['CODEBUILD_RESOLVED_SOURCE_VERSION'],
+        pullRequest: (env) => (env.CODEBUILD_WEBHOOK_EVENT?.startsWith('PULL_REQUEST') ? 'true' : undefined),
+      },
+    },
+  ];
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _cloudPlatforms: IMarker<CloudPlatformName, Exclude<keyof ICloudPlatform, 'name'>>[] = [
+    {
+      name: 'aws-lambda',
+      detect: (env) => env.AWS_LAMBDA_FUNCTION_NAME !== undefined,
+      metadata: {
+        region: ['AWS_REGION'],
+        service: ['AWS_LAMBDA_FUNCTION_NAME'],
+        version: ['AWS_LAMBDA_FUNCTION_VERSION'],
+        instanceId: ['AWS_LAMBDA_LOG_STREAM_NAME'],
+      },
+    },
+    {
+      name: 'aws-ecs',
+      detect: (env) => env.ECS_CONTAINER_METADATA_URI_V4 !== undefined || env.ECS_CONTAINER_METADATA_URI !== undefined,
+      metadata: { region: ['AWS_REGION', 'AWS_DEFAULT_REGION'] },
+    },
+    {
+      name: 'gcp-cloud-functions',
+      detect: (env) => env.FUNCTION_TARGET !== undefined || env.FUNCTION_NAME !== undefined,
+      metadata: {
+        region: ['FUNCTION_REGION'],
+        service: ['K_SERVICE', 'FUNCTION_NAME'],
+        version: ['K_REVISION'],
+      },
+    },
+    {
+      name: 'gcp-cloud-run',
+      detect: (env) => env.K_SERVICE !== undefined || env.CLOUD_RUN_JOB !== undefined,
+      metadata: {
+        service: ['K_SERVICE', 'CLOUD_RUN_JOB'],
+        version: ['K_REVISION', 'CLOUD_RUN_EXECUTION'],
+      },
+    },
+    {
+      name: 'gcp-app-engine',
+      detect: (env) => env.GAE_APPLICATION !== undefined,
+      metadata: {
+        service: ['GAE_SERVICE'],
+        version: ['GAE_VERSION'],
+        instanceId: ['GAE_INSTANCE'],
+      },
+    },
+    {
+      name: 'azure-functions',
+      detect: (env) => env.FUNCTIONS_WORKER_RUNTIME !== undefined,
+      metadata: {
+        region: ['REGION_NAME'],
+        service: ['WEBSITE_SITE_NAME'],
+        instanceId: ['WEBSITE_INSTANCE_ID'],
+      },
+    },
+    {
+      name: 'azure-app-service',
+      detect: (env) => env.WEBSITE_SITE_NAME !== undefined,
+      metadata: {
+        region: ['REGION_NAME'],
+        service: ['WEBSITE_SITE_NAME'],
+        instanceId: ['WEBSITE_INSTANCE_ID'],
+      },
+    },
+    {
+      name: 'heroku',
+      detect: (env) => env.DYNO !== undefined,
+      metadata: {
+        service: ['HEROKU_APP_NAME'],
+        version: ['HEROKU_RELEASE_VERSION'],
+        instanceId: ['DYNO'],
+      },
+    },
+    {
+      name: 'fly',
+      detect: (env) => env.FLY_APP_NAME !== undefined,
+      metadata: {
+        region: ['FLY_REGION'],
+        service: ['FLY_APP_NAME'],
+        version: ['FLY_IMAGE_REF'],
+        instanceId: ['FLY_MACHINE_ID', 'FLY_ALLOC_ID'],
+      },
+    },
+    {
+      name: 'render',
+      detect: (env) => env.RENDER === 'true',
+      metadata: {
+        service: ['RENDER_SERVICE_NAME'],
+        version: ['RENDER_GIT_COMMIT'],
+        instanceId: ['RENDER_INSTANCE_ID'],
+      },
+    },
+    {
+      name: 'railway',
+      detect: (env) => env.RAILWAY_ENVIRONMENT_NAME !== undefined || env.RAILWAY_ENVIRONMENT !== undefined,
+      metadata: {
+        region: ['RAILWAY_REPLICA_REGION'],
+        service: ['RAILWAY_SERVICE_NAME'],
+        version: ['RAILWAY_DEPLOYMENT_ID'],
+        instanceId: ['RAILWAY_REPLICA_ID'],
+      },
+    },
+    {
+      name: 'vercel',
+      detect: (env) => env.VERCEL === '1',
+      metadata: {
+        region: ['VERCEL_REGION'],
+        version: ['VERCEL_GIT_COMMIT_SHA'],
+      },
+    },
+    {
+      name: 'netlify',
+      detect: (env) => env.NETLIFY === 'true',
+      metadata: {
+        service: ['SITE_NAME'],
+        version: ['DEPLOY_ID'],
+      },
+    },
+  ];
+
+  /**
+   * The virtual machines that are recognized from the DMI files, by the file and the pattern its contents must match.
+   *
+   * @internal This is a private member.
+   */
+  private static readonly _virtualMachines: [CloudPlatformName, string, RegExp][] = [
+    ['aws-ec2', 'sys/class/dmi/id/board_vendor', /^Amazon EC2/],
+    ['aws-ec2', 'sys/hypervisor/uuid', /^ec2/i],
+    ['gcp-compute-engine', 'sys/class/dmi/id/product_name', /^Google Compute Engine/],
+    ['azure-vm', 'sys/class/dmi/id/chassis_asset_tag', /^7783-7084-3265-9085-8269-3286-77/],
+  ];
+
+  /**
+   * Detects the CI provider the process runs on.
+   *
+   * @example
+   * ```typescript
+   * import platformDetector from '@lib/environment/platform_detector';
+   *
+   * platformDetector.detectCI();
+   * // { name: 'github-actions', buildId: '1234', buildUrl: 'https://github.com/...', branch: 'main', commit: 'abc', pullRequest: false }
+   * ```
+   * @param {NodeJS.ProcessEnv} [env] The environment variables to inspect, defaults to `process.env`.
+   * @returns {ICIProvider | undefined} The CI provider, or undefined if it is not recognized.
+   */
+  public static detectCI(env: NodeJS.ProcessEnv = process.env): ICIProvider | undefined {
+    const provider = this._ciProviders.find((marker) => marker.detect(env));
+    if (provider === undefined) return undefined;
+
+    const { pullRequest, ...metadata } = this._readMetadata(provider, env);
+
+    return { name: provider.name, ...metadata, pullRequest: ![undefined, 'false'].includes(pullRequest) };
+  }
+
+  /**
+   * Determines if the process runs in CI, because a CI provider is recognized or the `CI` variable is set.
+   * @param {NodeJS.ProcessEnv} [env] The environment variables to inspect, defaults to `process.env`.
+   * @returns {boolean} True if the process runs in CI.
+   */
+  public static isCI(env: NodeJS.ProcessEnv = process.env): boolean {
+    if (this.detectCI(env) !== undefined) return true;
+
+    return env.CI !== undefined && !['', '0', 'false'].includes(env.CI.toLowerCase());
+  }
+
+  /**
+   * Detects the cloud platform or PaaS the process runs on, from the marker variables of serverless and container platforms, or the
+   * DMI files of virtual machines.
+   *
+   * @example
+   * ```typescript
+   * import platformDetector from '@lib/environment/platform_detector';
+   *
+   * platformDetector.detectPlatform();
+   * // { name: 'aws-lambda', region: 'eu-west-1', service: 'my-function', version: '$LATEST', instanceId: '2024/01/01/[$LATEST]abc' }
+   * ```
+   * @param {IPlatformDetectionOptions} [options] The options for detecting the platform.
+   * @returns {ICloudPlatform | undefined} The platform, or undefined if it is not recognized.
+   */
+  public static detectPlatform(options?: IPlatformDetectionOptions): ICloudPlatform | undefined {
+    const { env = process.env, root = '/' } = options ?? {};
+
+    const platform = this._cloudPlatforms.find((marker) => marker.detect(env));
+    if (platform !== undefined) return { name: platform.name, ...this._readMetadata(platform, env) };
+
+    for (const [name, file, pattern] of this._virtualMachines) {
+      try {
+        if (pattern.test(fs.readFileSync(path.join(root, file), 'utf8'))) return { name };
+      } catch {
+        continue;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reads the metadata of a CI provider or cloud platform, leaving out the metadata that is not set.
+   * @param {IMarker} marker The CI provider or cloud platform.
+   * @param {NodeJS.ProcessEnv} env The environment variables.
+   * @returns {Partial<Record<K, string>>} The metadata.
+   * @internal This is a private member.
+   */
+  private static _readMetadata<K extends string>(
+    marker: IMarker<string, K>,
+    env: NodeJS.ProcessEnv,
+  ): Partial<Record<K, string>> {
+    const metadata: Partial<Record<K, string>> = {};
+
+    for (const [key, source] of Object.entries(marker.metadata) as [K, MetadataSource][]) {
+      const value =
+        typeof source === 'function'
+          ? source(env)
+          : source.map((name) => env[name]).find((item) => item !== undefined && item !== '');
+
+      if (value !== undefined && value !== '') metadata[key] = value;
+    }
+
+    return metadata;
+  }
+}
@@ -0,0 +1,143 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: config_file_provider.ts
+    Description: A provider that reads variables from a JSON, YAML or TOML configuration file.
+    Written by: Nikita Petko
+*/
+
+import { IEnvironmentProvider, IProvidedValue } from './environment_provider';
+import configFileParser, { ConfigFileFormat } from '../config_file_parser';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Options for reading variables from a configuration file.
+ */
+export interface IConfigFileProviderOptions {
+  /**
+   * The format of the file, defaults to the format of its extension: `.json`, `.yaml`, `.yml` or `.toml`.
+   */
+  format?: ConfigFileFormat;
+
+  /**
+   * The separator between the keys of nested values in the names of the variables, defaults to `__` like `bind`.
+   */
+  separator?: string;
+}
+
+/**
+ * A provider that reads variables from a JSON, YAML or TOML configuration file. A file that does not exist provides no variables.
+ *
+ * Nested values are flattened, so `{ database: { host: 'db' } }` provides `database__host`. Objects and arrays are provided as a
+ * whole as well, as JSON or, for arrays of scalars, as a comma separated list. Like secret files, a variable is looked up by its
+ * name and then by its name in lower case, so `DATABASE__HOST` finds `database__host`.
+ *
+ * @example
+ * ```typescript
+ * import { ConfigFileProvider } from '@mfdlabs/environment';
+ *
+ * // config.yaml:
+ * // database:
+ * //   host: db.example.com
+ * //   replicas: [a.example.com, b.example.com]
+ * const provider = new ConfigFileProvider('config.yaml');
+ *
+ * provider.get('DATABASE__HOST'); // { value: 'db.example.com', file: '/app/config.yaml' }
+ * provider.get('DATABASE__REPLICAS'); // { value: 'a.example.com,b.example.com', file: '/app/config.yaml' }
+ * ```
+ */
+export default class ConfigFileProvider implements IEnvironmentProvider {
+  /**
+   * The name of the provider.
+   */
+  public readonly name = 'config-file';
+
+  /**
+   * The absolute path of the file.
+   */
+  public readonly file: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _format: ConfigFileFormat;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _separator: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _values = new Map<string, string>();
+
+  /**
+   * Constructs a new ConfigFileProvider and reads the file.
+   * @param {string} file The file to read.
+   * @param {IConfigFileProviderOptions} [options] The options for reading the file.
+   * @throws {TypeError} If the format is not given and cannot be determined from the extension of the file.
+   * @throws {ConfigFileParseError} If the file cannot be parsed.
+   */
+  public constructor(file: string, options?: IConfigFileProviderOptions) {
+    this.file = path.resolve(file);
+    this._format = options?.format ?? configFileParser.formatOf(file);
+    this._separator = options?.separator ?? '__';
+
+    if (this._format === undefined) throw new TypeError(`Cannot determine the format of '${file}' from its extension`);
+
+    this.reload();
+  }
+
+  /**
+   * Gets the value of a variable.
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if the file does not have the variable.
+   */
+  public get(key: string): IProvidedValue | undefined {
+    const value = this._values.get(key) ?? this._values.get(key.toLowerCase());
+
+    return value !== undefined ? { value, file: this.file } : undefined;
+  }
+
+  /**
+   * Lists the names of the flattened variables of the file.
+   * @returns {string[]} The names of the variables.
+   */
+  public keys(): string[] {
+    return [...this._values.keys()];
+  }
+
+  /**
+   * Reads the file again.
+   * @returns {void} Nothing.
+   * @throws {ConfigFileParseError} If the file cannot be parsed, in which case the previously read values are kept.
+   */
+  public reload(): void {
+    if (!fs.existsSync(this.file)) {
+      this._values = new Map();
+
+      return;
+    }
+
+    const parsed = configFileParser.parse(fs.readFileSync(this.file, 'utf8'), this._format, this.file);
+
+    this._values = configFileParser.flatten(parsed, this._separator);
+  }
+}
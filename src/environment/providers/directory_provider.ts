@@ -0,0 +1,129 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: directory_provider.ts
+    Description: A provider that reads variables from a directory with a file per variable.
+    Written by: Nikita Petko
+*/
+
+import { IEnvironmentProvider, IProvidedValue } from './environment_provider';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A provider that reads variables from a directory with a file per variable, the way Kubernetes mounts ConfigMaps. A variable is
+ * read from the file with its name, or its name in lower case. A directory that does not exist provides no variables.
+ *
+ * The trailing newlines of the files are trimmed, and their values are never interpolated. The files are cached until `reload`.
+ * Hidden files, such as the `..data` link Kubernetes swaps when a ConfigMap changes, are ignored.
+ *
+ * @example
+ * ```typescript
+ * import { DirectoryProvider } from '@mfdlabs/environment';
+ *
+ * const provider = new DirectoryProvider('/etc/config');
+ *
+ * provider.get('LOG_LEVEL'); // { value: 'debug', literal: true, file: '/etc/config/log_level' }
+ * ```
+ */
+export default class DirectoryProvider implements IEnvironmentProvider {
+  /**
+   * The name of the provider.
+   */
+  public readonly name = 'directory';
+
+  /**
+   * The absolute path of the directory.
+   */
+  public readonly directory: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _cache = new Map<string, string | undefined>();
+
+  /**
+   * Constructs a new DirectoryProvider.
+   * @param {string} directory The directory to read.
+   */
+  public constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Gets the value of a variable.
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if there is no file for the variable.
+   */
+  public get(key: string): IProvidedValue | undefined {
+    for (const name of new Set([key, key.toLowerCase()])) {
+      if (name.startsWith('.') || path.basename(name) !== name) continue;
+
+      const file = path.join(this.directory, name);
+      const value = this._readFile(file);
+
+      if (value !== undefined) return { value, literal: true, file };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Lists the names of the files in the directory.
+   * @returns {string[]} The names of the variables.
+   */
+  public keys(): string[] {
+    try {
+      return fs
+        .readdirSync(this.directory)
+        .filter((name) => !name.startsWith('.') && fs.statSync(path.join(this.directory, name)).isFile());
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Clears the cached files, so they are read again the next time they are used.
+   * @returns {void} Nothing.
+   */
+  public reload(): void {
+    this._cache.clear();
+  }
+
+  /**
+   * Reads a file, caching its contents.
+   * @param {string} file The absolute path of the file.
+   * @returns {string | undefined} The contents of the file without trailing newlines, or undefined if it is not a readable file.
+   * @internal This is a private member.
+   */
+  private _readFile(file: string): string | undefined {
+    if (!this._cache.has(file)) {
+      let value: string | undefined;
+
+      try {
+        value = fs.readFileSync(file, 'utf8').replace(/[\r\n]+$/, '');
+      } catch {
+        value = undefined;
+      }
+
+      this._cache.set(file, value);
+    }
+
+    return this._cache.get(file);
+  }
+}
@@ -0,0 +1,123 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: env_file_provider.ts
+    Description: A provider that reads variables from .env files.
+    Written by: Nikita Petko
+*/
+
+import { IEnvironmentProvider, IProvidedValue } from './environment_provider';
+import dotEnvParser from '../dotenv_parser';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A provider that reads variables from .env files, where each file takes precedence over the ones before it. Files that do not
+ * exist are skipped.
+ *
+ * Unlike `loadEnvFiles`, the files are not layered by `NODE_ENV` and never copied to `process.env`, so they can be placed anywhere in
+ * the chain of providers.
+ *
+ * @example
+ * ```typescript
+ * import { EnvFileProvider } from '@mfdlabs/environment';
+ *
+ * const provider = new EnvFileProvider(['/etc/app/defaults.env', '/etc/app/site.env']);
+ *
+ * provider.get('PORT'); // { value: '8080', file: '/etc/app/site.env', line: 3 }
+ * ```
+ */
+export default class EnvFileProvider implements IEnvironmentProvider {
+  /**
+   * The name of the provider.
+   */
+  public readonly name = 'env-file';
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _files: string[];
+
+  /**
+   * @internal This is a private member.
+   */
+  private _values = new Map<string, IProvidedValue>();
+
+  /**
+   * @internal This is a private member.
+   */
+  private _loadedFiles: string[] = [];
+
+  /**
+   * Constructs a new EnvFileProvider and reads the files.
+   * @param {string | string[]} files The files to read, lowest precedence first.
+   * @throws {DotEnvParseError} If any of the files cannot be parsed.
+   */
+  public constructor(files: string | string[]) {
+    this._files = (Array.isArray(files) ? files : [files]).map((file) => path.resolve(file));
+
+    this.reload();
+  }
+
+  /**
+   * Gets the list of files that were read, lowest precedence first.
+   * @returns {string[]} The absolute paths of the files.
+   */
+  public get loadedFiles(): string[] {
+    return [...this._loadedFiles];
+  }
+
+  /**
+   * Gets the value of a variable.
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if none of the files declare the variable.
+   */
+  public get(key: string): IProvidedValue | undefined {
+    return this._values.get(key);
+  }
+
+  /**
+   * Lists the names of the variables declared in the files.
+   * @returns {string[]} The names of the variables.
+   */
+  public keys(): string[] {
+    return [...this._values.keys()];
+  }
+
+  /**
+   * Reads the files again.
+   * @returns {void} Nothing.
+   * @throws {DotEnvParseError} If any of the files cannot be parsed, in which case the previously read values are kept.
+   */
+  public reload(): void {
+    const values = new Map<string, IProvidedValue>();
+    const loadedFiles: string[] = [];
+
+    for (const file of this._files) {
+      if (!fs.existsSync(file)) continue;
+
+      for (const { key, value, line, quote } of dotEnvParser.parse(fs.readFileSync(file, 'utf8'), file).values())
+        values.set(key, { value, literal: quote === '\'', file, line });
+
+      loadedFiles.push(file);
+    }
+
+    this._values = values;
+    this._loadedFiles = loadedFiles;
+  }
+}
@@ -0,0 +1,130 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: environment_provider.ts
+    Description: The interface of the sources environment variables are read from.
+    Written by: Nikita Petko
+*/
+
+/**
+ * The raw value of a variable returned by a provider, along with where it came from.
+ */
+export interface IProvidedValue {
+  /**
+   * The raw value of the variable, before it is interpolated and converted to its type.
+   */
+  value: string;
+
+  /**
+   * True if the value is taken literally and never interpolated, such as a single quoted .env value or the contents of a file.
+   */
+  literal?: boolean;
+
+  /**
+   * The path of the file the value was read from.
+   */
+  file?: string;
+
+  /**
+   * The 1-based line number of the file the variable was declared on.
+   */
+  line?: number;
+}
+
+/**
+ * A source of the raw values of environment variables, such as `process.env`, a configuration file or a directory of files.
+ *
+ * An environment reads a variable from the first of its providers that has it. The value is then converted to its type the same way
+ * whichever provider returned it. Only the values of an `EnvFileProvider` are interpolated, unless the environment interpolates all
+ * values.
+ */
+export interface IEnvironmentProvider {
+  /**
+   * The name of the provider, reported by `getWithSource`, `explain` and `dump` for the variables it provided.
+   */
+  readonly name: string;
+
+  /**
+   * Gets the raw value of a variable.
+   *
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if the provider does not have the variable.
+   */
+  get(key: string): IProvidedValue | undefined;
+
+  /**
+   * Lists the names of the variables the provider has, which `bind` uses to find the variables under a prefix.
+   *
+   * @returns {string[]} The names of the variables.
+   */
+  keys?(): string[];
+
+  /**
+   * Reads the values again from where they are stored, called by `reload`.
+   *
+   * @returns {void} Nothing.
+   */
+  reload?(): void;
+}
+
+/**
+ * The freshness of the values of an async provider, as returned by `getProviderStatus`.
+ */
+export interface IProviderStatus {
+  /**
+   * The name of the provider.
+   */
+  provider: string;
+
+  /**
+   * When the values were last loaded successfully, undefined if they never were.
+   */
+  loadedAt?: Date;
+
+  /**
+   * When the values expire, undefined if they do not.
+   */
+  expiresAt?: Date;
+
+  /**
+   * True if the values were never loaded or have expired. Stale values are still used until they are replaced.
+   */
+  stale: boolean;
+
+  /**
+   * The error of the last load, if it failed.
+   */
+  error?: Error;
+}
+
+/**
+ * A provider whose values are fetched asynchronously, such as from a remote store. The values are cached, so they can be read
+ * synchronously after `load` resolves, and the last values that loaded successfully are kept when a later load fails.
+ */
+export interface IAsyncEnvironmentProvider extends IEnvironmentProvider {
+  /**
+   * The freshness of the values.
+   */
+  readonly status: IProviderStatus;
+
+  /**
+   * Fetches the values and replaces the cached values with them.
+   *
+   * @returns {Promise<void>} A promise that resolves when the values are loaded, or rejects if they cannot be fetched.
+   */
+  load(): Promise<void>;
+}
@@ -0,0 +1,158 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: http_source.ts
+    Description: A remote source that fetches values from an HTTP configuration service.
+    Written by: Nikita Petko
+*/
+
+import { IRemoteSnapshot, IRemoteSource } from './remote_provider';
+
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Options for fetching values from an HTTP configuration service.
+ */
+export interface IHttpSourceOptions {
+  /**
+   * The name of the source, defaults to `http`.
+   */
+  name?: string;
+
+  /**
+   * The headers to send, such as an authorization token.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * The number of milliseconds to wait for the service, defaults to 5000.
+   */
+  timeout?: number;
+}
+
+/**
+ * A remote source that fetches a JSON object of values with a GET request. The TTL of the values is taken from the `max-age` of the
+ * `Cache-Control` header of the response, and `no-cache` or `no-store` makes them stale right away.
+ *
+ * @example
+ * ```typescript
+ * import { HttpSource, RemoteProvider } from '@mfdlabs/environment';
+ *
+ * const provider = new RemoteProvider(
+ *   new HttpSource('https://config.example.com/v1/apps/api', { headers: { authorization: `Bearer ${token}` } }),
+ * );
+ * ```
+ */
+export default class HttpSource implements IRemoteSource {
+  /**
+   * The name of the source.
+   */
+  public readonly name: string;
+
+  /**
+   * The URL the values are fetched from.
+   */
+  public readonly url: URL;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _headers: Record<string, string>;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _timeout: number;
+
+  /**
+   * Constructs a new HttpSource.
+   * @param {string | URL} url The URL the values are fetched from.
+   * @param {IHttpSourceOptions} [options] The options for fetching the values.
+   */
+  public constructor(url: string | URL, options?: IHttpSourceOptions) {
+    this.name = options?.name ?? 'http';
+    this.url = new URL(url);
+    this._headers = { accept: 'application/json', ...options?.headers };
+    this._timeout = options?.timeout ?? 5000;
+  }
+
+  /**
+   * Fetches the values from the service.
+   * @returns {Promise<IRemoteSnapshot>} The values, and their TTL if the response has one.
+   */
+  public fetch(): Promise<IRemoteSnapshot> {
+    return new Promise((resolve, reject) => {
+      const client = this.url.protocol === 'https:' ? https : http;
+
+      const request = client.get(this.url, { headers: this._headers, timeout: this._timeout }, (response) => {
+        const chunks: Buffer[] = [];
+
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          if (response.statusCode < 200 || response.statusCode >= 300) {
+            reject(new Error(`GET ${this.url.href} responded with ${response.statusCode}`));
+
+            return;
+          }
+
+          let values: unknown;
+
+          try {
+            values = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          } catch (error) {
+            reject(error);
+
+            return;
+          }
+
+          if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+            reject(new Error(`GET ${this.url.href} did not respond with a JSON object`));
+
+            return;
+          }
+
+          resolve({
+            values: values as Record<string, unknown>,
+            ttl: HttpSource._getTtl(response.headers['cache-control']),
+          });
+        });
+      });
+
+      request.on('timeout', () =>
+        request.destroy(new Error(`GET ${this.url.href} timed out after ${this._timeout}ms`)),
+      );
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Gets the TTL of a response from its `Cache-Control` header.
+   * @param {string} [cacheControl] The value of the header.
+   * @returns {number | undefined} The TTL in milliseconds, or undefined if the header does not set one.
+   * @internal This is a private member.
+   */
+  private static _getTtl(cacheControl?: string): number | undefined {
+    const directives = cacheControl?.toLowerCase() ?? '';
+    if (/\b(?:no-cache|no-store)\b/.test(directives)) return 0;
+
+    const maxAge = /\bmax-age=(\d+)/.exec(directives)?.[1];
+
+    return maxAge === undefined ? undefined : Number(maxAge) * 1000;
+  }
+}
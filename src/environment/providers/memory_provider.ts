@@ -0,0 +1,99 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: memory_provider.ts
+    Description: A provider that reads variables from an in-memory map.
+    Written by: Nikita Petko
+*/
+
+import { IEnvironmentProvider, IProvidedValue } from './environment_provider';
+import typeConverters from '../type_converters';
+
+/**
+ * A provider that reads variables from an in-memory map, such as defaults shipped with an application or values fetched at
+ * startup. Values that are not strings are serialized the way `dump` serializes them.
+ *
+ * @example
+ * ```typescript
+ * import { MemoryProvider } from '@mfdlabs/environment';
+ *
+ * const provider = new MemoryProvider({ PORT: 8080, HOSTS: ['a.com', 'b.com'] });
+ *
+ * provider.get('HOSTS'); // { value: 'a.com,b.com' }
+ * ```
+ */
+export default class MemoryProvider implements IEnvironmentProvider {
+  /**
+   * The name of the provider.
+   */
+  public readonly name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _values = new Map<string, string>();
+
+  /**
+   * Constructs a new MemoryProvider.
+   * @param {Record<string, unknown> | Map<string, unknown>} [values] The initial values, keyed by the names of the variables.
+   * @param {string} [name] The name of the provider, defaults to `memory`.
+   */
+  public constructor(values?: Record<string, unknown> | Map<string, unknown>, name = 'memory') {
+    this.name = name;
+
+    for (const [key, value] of values instanceof Map ? values : Object.entries(values ?? {})) this.set(key, value);
+  }
+
+  /**
+   * Gets the value of a variable.
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if the variable is not set.
+   */
+  public get(key: string): IProvidedValue | undefined {
+    const value = this._values.get(key);
+
+    return value !== undefined ? { value } : undefined;
+  }
+
+  /**
+   * Lists the names of the variables that are set.
+   * @returns {string[]} The names of the variables.
+   */
+  public keys(): string[] {
+    return [...this._values.keys()];
+  }
+
+  /**
+   * Sets the value of a variable. Setting it to undefined or null deletes it.
+   * @param {string} key The name of the variable.
+   * @param {unknown} value The value of the variable.
+   * @returns {void} Nothing.
+   */
+  public set(key: string, value: unknown): void {
+    if (value === undefined || value === null) this._values.delete(key);
+    else this._values.set(key, typeConverters.serialize(value));
+  }
+
+  /**
+   * Deletes a variable.
+   * @param {string} key The name of the variable.
+   * @returns {boolean} True if the variable was set.
+   */
+  public delete(key: string): boolean {
+    return this._values.delete(key);
+  }
+}
@@ -0,0 +1,75 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: process_env_provider.ts
+    Description: A provider that reads variables from process.env.
+    Written by: Nikita Petko
+*/
+
+import { IEnvironmentProvider, IProvidedValue } from './environment_provider';
+
+/**
+ * A provider that reads variables from `process.env`, or another object of environment variables. Environments use it when they
+ * are not given any providers.
+ *
+ * @example
+ * ```typescript
+ * import { ProcessEnvProvider } from '@mfdlabs/environment';
+ *
+ * const provider = new ProcessEnvProvider({ PORT: '8080' });
+ *
+ * provider.get('PORT'); // { value: '8080' }
+ * ```
+ */
+export default class ProcessEnvProvider implements IEnvironmentProvider {
+  /**
+   * The name of the provider.
+   */
+  public readonly name = 'process';
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _env?: NodeJS.ProcessEnv;
+
+  /**
+   * Constructs a new ProcessEnvProvider.
+   * @param {NodeJS.ProcessEnv} [env] The environment variables to read, defaults to `process.env` at the time they are read.
+   */
+  public constructor(env?: NodeJS.ProcessEnv) {
+    this._env = env;
+  }
+
+  /**
+   * Gets the value of a variable.
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if the variable is not set.
+   */
+  public get(key: string): IProvidedValue | undefined {
+    const value = (this._env ?? process.env)[key];
+
+    return value !== undefined ? { value } : undefined;
+  }
+
+  /**
+   * Lists the names of the variables that are set.
+   * @returns {string[]} The names of the variables.
+   */
+  public keys(): string[] {
+    return Object.keys(this._env ?? process.env);
+  }
+}
@@ -0,0 +1,223 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: remote_provider.ts
+    Description: A provider that caches the values of an async source, such as a remote configuration store.
+    Written by: Nikita Petko
+*/
+
+import { IAsyncEnvironmentProvider, IProvidedValue, IProviderStatus } from './environment_provider';
+import configFileParser from '../config_file_parser';
+import RemoteSourceError from '../errors/remote_source_error';
+
+/**
+ * The values fetched from a remote source.
+ */
+export interface IRemoteSnapshot {
+  /**
+   * The values, keyed by the names of the variables. Nested values are flattened the same way as the values of configuration files.
+   */
+  values: Record<string, unknown>;
+
+  /**
+   * The number of milliseconds the values are valid for, which takes precedence over the `ttl` option of the provider.
+   */
+  ttl?: number;
+}
+
+/**
+ * A source of values that have to be fetched asynchronously, such as Consul KV, etcd, Vault or an HTTP configuration service.
+ */
+export interface IRemoteSource {
+  /**
+   * The name of the source, which is used as the name of its provider.
+   */
+  readonly name: string;
+
+  /**
+   * Fetches every value of the source.
+   *
+   * @returns {Promise<IRemoteSnapshot>} The values.
+   */
+  fetch(): Promise<IRemoteSnapshot>;
+}
+
+/**
+ * Options for caching the values of a remote source.
+ */
+export interface IRemoteProviderOptions {
+  /**
+   * The number of milliseconds the values are valid for when the source does not return a TTL, after which they are stale and
+   * refreshed by `watch`. The values never expire if neither is set.
+   */
+  ttl?: number;
+
+  /**
+   * The separator between the keys of nested values in the names of the variables, defaults to `__`.
+   */
+  separator?: string;
+
+  /**
+   * Takes the values literally even if the environment interpolates all values, such as for secrets that may contain `$`. Defaults
+   * to false.
+   */
+  literal?: boolean;
+}
+
+/**
+ * A provider that caches the values of an async source, so they can be read synchronously once `load` resolves.
+ *
+ * The provider has no values until its first load. When a later load fails, the last values that loaded successfully are kept and
+ * the error is reported by `status`. Like configuration files, a variable is looked up by its name and then by its name in lower case.
+ *
+ * @example
+ * ```typescript
+ * import { RemoteProvider } from '@mfdlabs/environment';
+ *
+ * const consul = new RemoteProvider(
+ *   { name: 'consul', fetch: async () => ({ values: await fetchConsulKeys('app/') }) },
+ *   { ttl: 60_000 },
+ * );
+ *
+ * await consul.load();
+ * consul.get('FEATURE_FLAGS'); // { value: 'checkout,search' }
+ * ```
+ */
+export default class RemoteProvider implements IAsyncEnvironmentProvider {
+  /**
+   * The name of the provider, which is the name of its source.
+   */
+  public readonly name: string;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _source: IRemoteSource;
+
+  /**
+   * @internal This is a private member.
+   */
+  private readonly _options: IRemoteProviderOptions;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _values = new Map<string, string>();
+
+  /**
+   * @internal This is a private member.
+   */
+  private _loadedAt?: Date = undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _expiresAt?: Date = undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _error?: Error = undefined;
+
+  /**
+   * @internal This is a private member.
+   */
+  private _pendingLoad?: Promise<void> = undefined;
+
+  /**
+   * Constructs a new RemoteProvider. The values are not fetched until `load` is called.
+   * @param {IRemoteSource} source The source of the values.
+   * @param {IRemoteProviderOptions} [options] The options for caching the values.
+   */
+  public constructor(source: IRemoteSource, options?: IRemoteProviderOptions) {
+    this.name = source.name;
+    this._source = source;
+    this._options = { separator: '__', ...options };
+  }
+
+  /**
+   * Gets the freshness of the values.
+   * @returns {IProviderStatus} The status of the provider.
+   */
+  public get status(): IProviderStatus {
+    const expired = this._expiresAt !== undefined && Date.now() >= this._expiresAt.getTime();
+    const status: IProviderStatus = { provider: this.name, stale: this._loadedAt === undefined || expired };
+
+    if (this._loadedAt !== undefined) status.loadedAt = this._loadedAt;
+    if (this._expiresAt !== undefined) status.expiresAt = this._expiresAt;
+    if (this._error !== undefined) status.error = this._error;
+
+    return status;
+  }
+
+  /**
+   * Gets the cached value of a variable.
+   * @param {string} key The name of the variable.
+   * @returns {IProvidedValue | undefined} The value, or undefined if the source does not have the variable or was never loaded.
+   */
+  public get(key: string): IProvidedValue | undefined {
+    const value = this._values.get(key) ?? this._values.get(key.toLowerCase());
+    if (value === undefined) return undefined;
+
+    return this._options.literal ? { value, literal: true } : { value };
+  }
+
+  /**
+   * Lists the names of the cached variables.
+   * @returns {string[]} The names of the variables.
+   */
+  public keys(): string[] {
+    return [...this._values.keys()];
+  }
+
+  /**
+   * Fetches the values from the source and replaces the cached values with them. Concurrent calls share the same fetch.
+   * @returns {Promise<void>} A promise that resolves when the values are loaded.
+   * @throws {RemoteSourceError} If the values cannot be fetched, in which case the previous values are kept.
+   */
+  public load(): Promise<void> {
+    this._pendingLoad ??= this._fetch().finally(() => {
+      this._pendingLoad = undefined;
+    });
+
+    return this._pendingLoad;
+  }
+
+  /**
+   * Fetches the values from the source and caches them.
+   * @returns {Promise<void>} A promise that resolves when the values are cached.
+   * @internal This is a private member.
+   */
+  private async _fetch(): Promise<void> {
+    let snapshot: IRemoteSnapshot;
+
+    try {
+      snapshot = await this._source.fetch();
+    } catch (error) {
+      this._error = new RemoteSourceError(this.name, error);
+
+      throw this._error;
+    }
+
+    const ttl = snapshot.ttl ?? this._options.ttl;
+
+    this._values = configFileParser.flatten(snapshot.values ?? {}, this._options.separator);
+    this._loadedAt = new Date();
+    this._expiresAt = ttl === undefined ? undefined : new Date(this._loadedAt.getTime() + ttl);
+    this._error = undefined;
+  }
+}
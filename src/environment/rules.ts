@@ -0,0 +1,233 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: rules.ts
+    Description: Rules that span several environment variables, checked by validate.
+    Written by: Nikita Petko
+*/
+
+import typeConverters from './type_converters';
+import { IEnvironmentValidationIssue } from './errors/environment_validation_error';
+
+import { isDeepStrictEqual } from 'util';
+
+/**
+ * A condition of a rule, either the name of a variable that must be set, or the values that variables must resolve to. A variable
+ * that is read as a string, because it is not in the schema, is converted to the type of a boolean, number or bigint value first.
+ */
+export type RuleCondition = string | Record<string, unknown>;
+
+/**
+ * A rule that spans several environment variables.
+ */
+export interface IRule {
+  /**
+   * The names of the variables the rule is about.
+   */
+  readonly variables: string[];
+
+  /**
+   * Checks the rule against the resolved values of the variables.
+   * @param {Function} get Gets the resolved value of a variable by its name, or undefined if it is not set.
+   * @returns {IEnvironmentValidationIssue[]} The problems that were found, empty if the rule holds.
+   */
+  check(get: (name: string) => unknown): IEnvironmentValidationIssue[];
+}
+
+/**
+ * Rules that span several environment variables, passed to `validate` along with the schema.
+ *
+ * A variable is set if its resolved value is not undefined or empty, so a variable with a default value is always set. The variables
+ * in the schema are checked with their converted values, and the variables that are not are read as strings, which `requires`
+ * converts to the type of the values of its condition.
+ *
+ * @example
+ * ```typescript
+ * import { Rules } from '@mfdlabs/environment';
+ *
+ * env.validate(schema, [
+ *   Rules.allOf('TLS_CERT', 'TLS_KEY'),
+ *   Rules.requires('SMTP_HOST', { EMAIL_ENABLED: true }),
+ *   Rules.custom(['CACHE_TTL', 'CACHE_MAX_TTL'], (values) => values.CACHE_TTL < values.CACHE_MAX_TTL),
+ * ]);
+ * ```
+ */
+export default abstract class Rules {
+  /**
+   * Requires the variables to be set when the condition holds.
+   *
+   * @example
+   * ```typescript
+   * Rules.requires('SMTP_HOST', { EMAIL_ENABLED: true }); // SMTP_HOST: is required when EMAIL_ENABLED is true
+   * Rules.requires(['TLS_KEY'], 'TLS_CERT'); // TLS_KEY: is required when TLS_CERT is set
+   * ```
+   * @param {string | string[]} variables The variables that are required.
+   * @param {RuleCondition} when The name of a variable that must be set, or the values that variables must resolve to.
+   * @returns {IRule} The rule.
+   */
+  public static requires(variables: string | string[], when: RuleCondition): IRule {
+    const required = typeof variables === 'string' ? [variables] : variables;
+    const condition: [string, unknown][] = typeof when === 'string' ? [[when, undefined]] : Object.entries(when);
+    const description = condition
+      .map(([name, value]) => (typeof when === 'string' ? `${name} is set` : `${name} is ${String(value)}`))
+      .join(' and ');
+
+    return {
+      variables: [...required, ...condition.map(([name]) => name)],
+      check: (get) => {
+        const holds = condition.every(([name, value]) =>
+          typeof when === 'string' ? this._isSet(get(name)) : isDeepStrictEqual(this._coerce(get(name), value), value),
+        );
+
+        if (!holds) return [];
+
+        return required
+          .filter((name) => !this._isSet(get(name)))
+          .map((name) => ({ variable: name, message: `is required when ${description}` }));
+      },
+    };
+  }
+
+  /**
+   * Allows at most one of the variables to be set.
+   * @param {string[]} variables The variables that cannot be set together.
+   * @returns {IRule} The rule.
+   */
+  public static conflicts(...variables: string[]): IRule {
+    return {
+      variables,
+      check: (get) => {
+        const set = variables.filter((name) => this._isSet(get(name)));
+        if (set.length <= 1) return [];
+
+        return [{ variable: set.join(', '), message: 'cannot be set together, unset all but one of them' }];
+      },
+    };
+  }
+
+  /**
+   * Requires exactly one of the variables to be set.
+   * @param {string[]} variables The variables of which exactly one must be set.
+   * @returns {IRule} The rule.
+   */
+  public static oneOf(...variables: string[]): IRule {
+    return {
+      variables,
+      check: (get) => {
+        const set = variables.filter((name) => this._isSet(get(name)));
+        if (set.length === 1) return [];
+
+        return [
+          {
+            variable: variables.join(', '),
+            message: `exactly one must be set, but ${set.length === 0 ? 'none is' : `${set.join(' and ')} are`} set`,
+          },
+        ];
+      },
+    };
+  }
+
+  /**
+   * Requires the variables to be set together, so either all of them are set or none of them are.
+   * @param {string[]} variables The variables that must be set together.
+   * @returns {IRule} The rule.
+   */
+  public static allOf(...variables: string[]): IRule {
+    return {
+      variables,
+      check: (get) => {
+        const unset = variables.filter((name) => !this._isSet(get(name)));
+        if (unset.length === 0 || unset.length === variables.length) return [];
+
+        return [
+          {
+            variable: variables.join(', '),
+            message: `must be set together, but ${unset.join(' and ')} ${unset.length === 1 ? 'is' : 'are'} not set`,
+          },
+        ];
+      },
+    };
+  }
+
+  /**
+   * Checks the variables with a predicate.
+   *
+   * @example
+   * ```typescript
+   * Rules.custom(['CACHE_TTL', 'CACHE_MAX_TTL'], ({ CACHE_TTL, CACHE_MAX_TTL }) =>
+   *   CACHE_TTL < CACHE_MAX_TTL || 'CACHE_TTL must be less than CACHE_MAX_TTL',
+   * );
+   * ```
+   * @param {string[]} variables The variables the predicate reads.
+   * @param {Function} predicate Receives the resolved values keyed by the names of the variables. Return false or an error message
+   * if the values are invalid.
+   * @param {string} [message] The message to report if the predicate returns false, defaults to `failed validation`.
+   * @returns {IRule} The rule.
+   */
+  public static custom(
+    variables: string[],
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    predicate: (values: Record<string, any>) => boolean | string,
+    message = 'failed validation',
+  ): IRule {
+    return {
+      variables,
+      check: (get) => {
+        const result = predicate(Object.fromEntries(variables.map((name) => [name, get(name)])));
+        if (result === true) return [];
+
+        return [{ variable: variables.join(', '), message: typeof result === 'string' ? result : message }];
+      },
+    };
+  }
+
+  /**
+   * Converts a value that was read as a string to the type of the value it is compared to, so `'true'` matches `true`.
+   * @param {unknown} actual The resolved value.
+   * @param {unknown} expected The value it is compared to.
+   * @returns {unknown} The converted value, or the resolved value if it is not a string or cannot be converted.
+   * @internal This is a private member.
+   */
+  private static _coerce(actual: unknown, expected: unknown): unknown {
+    if (typeof actual !== 'string') return actual;
+
+    try {
+      switch (typeof expected) {
+        case 'boolean':
+          return typeConverters.toBoolean(actual, undefined, true);
+        case 'number':
+          return typeConverters.toNumber(actual, true);
+        case 'bigint':
+          return typeConverters.toBigInt(actual, true);
+        default:
+          return actual;
+      }
+    } catch {
+      return actual;
+    }
+  }
+
+  /**
+   * Determines if a resolved value counts as set.
+   * @param {unknown} value The resolved value.
+   * @returns {boolean} True if the value is not undefined, null or empty.
+   * @internal This is a private member.
+   */
+  private static _isSet(value: unknown): boolean {
+    return value !== undefined && value !== null && value !== '';
+  }
+}
@@ -0,0 +1,226 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: runtime_detector.ts
+    Description: Detects the container engine, cgroup version and orchestrator the process runs under.
+    Written by: Nikita Petko
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The container engines that can be detected.
+ */
+export type ContainerEngine = 'docker' | 'podman' | 'containerd' | 'cri-o' | 'lxc';
+
+/**
+ * Options for detecting the runtime.
+ */
+export interface IRuntimeDetectionOptions {
+  /**
+   * The root of the filesystem to inspect, defaults to `/`.
+   */
+  root?: string;
+
+  /**
+   * The environment variables to inspect, defaults to `process.env`.
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * The platform to assume, defaults to `process.platform`. The filesystem is only inspected on Linux.
+   */
+  platform?: NodeJS.Platform;
+}
+
+/**
+ * Describes the runtime the process runs under.
+ */
+export interface IRuntimeInfo {
+  /**
+   * True if the process runs inside of a container.
+   */
+  container: boolean;
+
+  /**
+   * The container engine, if it could be determined.
+   */
+  engine?: ContainerEngine;
+
+  /**
+   * The version of the cgroup hierarchy, if it could be determined.
+   */
+  cgroupVersion?: 1 | 2;
+
+  /**
+   * True if the process runs in a Kubernetes pod.
+   */
+  kubernetes: boolean;
+
+  /**
+   * The ID of the container, if it could be found.
+   */
+  containerId?: string;
+
+  /**
+   * True if the process runs under the Windows Subsystem for Linux.
+   */
+  wsl: boolean;
+}
+
+/**
+ * A helper that detects the runtime the process runs under from the files in `/proc`, `/run` and `/var/run`.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class RuntimeDetector {
+  /**
+   * The patterns of the cgroup and mount paths that contain the ID of a container, and the engine they belong to.
+   *
+   * @internal This is a private member.
+   */
+  private static readonly _containerPaths: [RegExp, ContainerEngine | undefined][] = [
+    [/\/libpod-(?:conmon-)?([0-9a-f]{64})/, 'podman'],
+    [/\/overlay-containers\/([0-9a-f]{64})\//, 'podman'],
+    [/\/docker[/-]([0-9a-f]{64})/, 'docker'],
+    [/\/docker\/containers\/([0-9a-f]{64})\//, 'docker'],
+    [/\/io\.containerd\.grpc\.v1\.cri\/sandboxes\/([0-9a-f]{64})\//, 'containerd'],
+    [/\/cri-containerd[-:]([0-9a-f]{64})/, 'containerd'],
+    [/\/io\.containerd\.runtime\.v2\.task\/[^/\s]+\/([0-9a-f]{64})/, 'containerd'],
+    [/\/crio-(?:conmon-)?([0-9a-f]{64})/, 'cri-o'],
+    [/\/kubepods[^\s]*\/([0-9a-f]{64})/, undefined],
+    [/\/lxc(?:\.payload)?[./]([^/\s]+)/, 'lxc'],
+  ];
+
+  /**
+   * The files that container engines bind mount into their containers, whose source paths contain the ID of the container.
+   *
+   * @internal This is a private member.
+   */
+  private static readonly _containerMounts = ['/etc/hostname', '/etc/hosts', '/etc/resolv.conf'];
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _serviceAccountTokens = [
+    'var/run/secrets/kubernetes.io/serviceaccount/token',
+    'run/secrets/kubernetes.io/serviceaccount/token',
+  ];
+
+  /**
+   * Detects the runtime the process runs under.
+   *
+   * @example
+   * ```typescript
+   * import runtimeDetector from '@lib/environment/runtime_detector';
+   *
+   * runtimeDetector.detect();
+   * // { container: true, engine: 'containerd', cgroupVersion: 2, kubernetes: true, containerId: '3f4b...', wsl: false }
+   * ```
+   * @param {IRuntimeDetectionOptions} [options] The options for detecting the runtime.
+   * @returns {IRuntimeInfo} The runtime.
+   */
+  public static detect(options?: IRuntimeDetectionOptions): IRuntimeInfo {
+    const { root = '/', env = process.env, platform = process.platform } = options ?? {};
+    const kubernetes = env.KUBERNETES_SERVICE_HOST !== undefined;
+
+    if (platform !== 'linux') return { container: kubernetes, kubernetes, wsl: false };
+
+    const read = (file: string) => this._readFile(path.join(root, file));
+    const exists = (file: string) => fs.existsSync(path.join(root, file));
+
+    const cgroup = read('proc/self/cgroup');
+    const mountSources = this._getContainerMountSources(read('proc/self/mountinfo'));
+    const version = read('proc/sys/kernel/osrelease') ?? read('proc/version') ?? '';
+
+    const info: IRuntimeInfo = {
+      container: false,
+      kubernetes: kubernetes || this._serviceAccountTokens.some(exists) || /\/kubepods/.test(cgroup ?? ''),
+      wsl: env.WSL_DISTRO_NAME !== undefined || /microsoft|wsl/i.test(version),
+    };
+
+    if (cgroup !== undefined) info.cgroupVersion = /^(0::[^\n]*\n?)+$/.test(cgroup.trim()) ? 2 : 1;
+    else if (exists('sys/fs/cgroup/cgroup.controllers')) info.cgroupVersion = 2;
+
+    for (const [pattern, engine] of this._containerPaths) {
+      const match = pattern.exec(cgroup ?? '') ?? pattern.exec(mountSources);
+      if (match === null) continue;
+
+      info.containerId ??= match[1];
+      info.engine ??= engine;
+    }
+
+    if (exists('run/.containerenv')) info.engine = 'podman';
+    else if (exists('.dockerenv')) info.engine = 'docker';
+    else if (env.container === 'podman' || env.container === 'lxc') info.engine ??= env.container;
+
+    // CRI-O shares its storage layout and .containerenv file with Podman, but only CRI-O runs Kubernetes pods.
+    if (info.engine === 'podman' && info.kubernetes) info.engine = 'cri-o';
+
+    info.container =
+      info.engine !== undefined ||
+      info.containerId !== undefined ||
+      info.kubernetes ||
+      env.container !== undefined ||
+      this._hasForeignInit(read('proc/1/sched'));
+
+    return info;
+  }
+
+  /**
+   * Gets the source paths of the files that container engines bind mount into their containers. The other mounts are ignored, as
+   * the mounts of the containers on a host are visible from the host as well.
+   * @param {string} mountInfo The contents of `/proc/self/mountinfo`.
+   * @returns {string} The source paths, one per line.
+   * @internal This is a private member.
+   */
+  private static _getContainerMountSources(mountInfo: string | undefined): string {
+    return (mountInfo ?? '')
+      .split('\n')
+      .map((line) => line.split(' '))
+      .filter((fields) => this._containerMounts.includes(fields[4]))
+      .map((fields) => fields[3])
+      .join('\n');
+  }
+
+  /**
+   * Determines if the first process of the PID namespace is reported with a PID other than 1, which means it runs in a container.
+   * @param {string} sched The contents of `/proc/1/sched`.
+   * @returns {boolean} True if the first process has a PID other than 1.
+   * @internal This is a private member.
+   */
+  private static _hasForeignInit(sched: string | undefined): boolean {
+    const pid = /^[^\n]*\((\d+), #threads/.exec(sched ?? '')?.[1];
+
+    return pid !== undefined && pid !== '1';
+  }
+
+  /**
+   * Reads a file, if it can be read.
+   * @param {string} fileName The name of the file.
+   * @returns {string | undefined} The contents of the file, or undefined if it cannot be read.
+   * @internal This is a private member.
+   */
+  private static _readFile(fileName: string): string | undefined {
+    try {
+      return fs.readFileSync(fileName, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+}
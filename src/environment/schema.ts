@@ -0,0 +1,228 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: schema.ts
+    Description: Types and helpers for declaring environment variables as a schema.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import {
+  DefaultValueGetter,
+  EnvironmentVariableArrayType,
+  EnvironmentVariableMapType,
+  EnvironmentVariableType,
+  EnvironmentVariableValue,
+} from './index';
+import { IArrayParseOptions } from './type_converters';
+import Secret from './secret';
+import StageDefaults, { Stage } from './stage_defaults';
+
+/**
+ * Constraints that the value of an environment variable must satisfy.
+ */
+export interface ISchemaConstraints<T = unknown> {
+  /**
+   * The minimum value of a number or bigint.
+   */
+  min?: number | bigint;
+
+  /**
+   * The maximum value of a number or bigint.
+   */
+  max?: number | bigint;
+
+  /**
+   * The minimum length of a string or array.
+   */
+  minLength?: number;
+
+  /**
+   * The maximum length of a string or array.
+   */
+  maxLength?: number;
+
+  /**
+   * A pattern that a string, or every item of an array, must match.
+   */
+  pattern?: RegExp;
+
+  /**
+   * The allowed values, or the allowed items of an array.
+   */
+  oneOf?: readonly unknown[];
+
+  /**
+   * A custom validator. Return false or an error message if the value is invalid.
+   */
+  validate?: (value: T) => boolean | string;
+}
+
+/**
+ * Declares a single environment variable.
+ */
+export interface ISchemaEntry<T = unknown> {
+  /**
+   * The name of the environment variable, defaults to the key of the entry in the schema.
+   */
+  name?: string;
+
+  /**
+   * The type of the environment variable, inferred from the default value if not specified.
+   */
+  type?: EnvironmentVariableType | EnvironmentVariableArrayType | EnvironmentVariableMapType;
+
+  /**
+   * The default value of the environment variable.
+   */
+  default?: DefaultValueGetter<T>;
+
+  /**
+   * If true, the environment variable must be set to a non-empty value.
+   */
+  required?: boolean;
+
+  /**
+   * The deployment stages in which the environment variable must be set to a non-empty value.
+   */
+  requiredIn?: Stage[];
+
+  /**
+   * A description of the environment variable.
+   */
+  description?: string;
+
+  /**
+   * Constraints that the value of the environment variable must satisfy.
+   */
+  constraints?: ISchemaConstraints<T>;
+
+  /**
+   * The options for splitting the value of an array or map environment variable.
+   */
+  array?: IArrayParseOptions;
+
+  /**
+   * If true, the value is masked in dumps and `validate` wraps it in a `Secret`.
+   */
+  secret?: boolean;
+
+  /**
+   * Other names the environment variable can be set by, read in order after its own name.
+   */
+  aliases?: string[];
+
+  /**
+   * Old names of the environment variable, read in order after its aliases with a one-time deprecation warning.
+   */
+  deprecated?: string[];
+}
+
+/**
+ * A set of environment variables, keyed by the name of the property they are bound to.
+ */
+export type Schema = Record<string, ISchemaEntry<any>>;
+
+/**
+ * Widens a literal type to its primitive type.
+ */
+type Widen<T> = T extends string
+  ? string
+  : T extends number
+  ? number
+  : T extends boolean
+  ? boolean
+  : T extends bigint
+  ? bigint
+  : T;
+
+/**
+ * The type of the value that a schema entry resolves to, before secrets are wrapped.
+ */
+type UnwrappedSchemaEntryValue<E> = E extends { type: infer K }
+  ? K extends string
+    ? EnvironmentVariableValue<K>
+    : unknown
+  : E extends { default: StageDefaults<infer T> }
+  ? Widen<T>
+  : E extends { default: () => infer T }
+  ? Widen<T>
+  : E extends { default: infer T }
+  ? Widen<T>
+  : string;
+
+/**
+ * The type of the value that a schema entry resolves to.
+ */
+export type SchemaEntryValue<E> = E extends { secret: true }
+  ? Secret<UnwrappedSchemaEntryValue<E>>
+  : UnwrappedSchemaEntryValue<E>;
+
+/**
+ * The type of the configuration object that a schema resolves to.
+ */
+export type SchemaValues<S extends Schema> = { readonly [K in keyof S]: SchemaEntryValue<S[K]> };
+
+/**
+ * A helper that checks values against the constraints of a schema entry.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class SchemaValidator {
+  /**
+   * Checks the value against the constraints of the schema entry.
+   *
+   * @param {unknown} value The converted value of the environment variable.
+   * @param {ISchemaEntry} entry The schema entry.
+   * @returns {string[]} The problems that were found, empty if the value is valid.
+   */
+  public static check(value: unknown, entry: ISchemaEntry<any>): string[] {
+    const issues: string[] = [];
+    const items = Array.isArray(value) ? value : value instanceof Map ? [...value.values()] : [value];
+    const constraints = entry.constraints ?? {};
+
+    if (items.some((item) => typeof item === 'number' && isNaN(item))) issues.push('is not a valid number');
+
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      if (constraints.min !== undefined && value < constraints.min) issues.push(`must be at least ${constraints.min}`);
+      if (constraints.max !== undefined && value > constraints.max) issues.push(`must be at most ${constraints.max}`);
+    }
+
+    if (typeof value === 'string' || Array.isArray(value)) {
+      if (constraints.minLength !== undefined && value.length < constraints.minLength)
+        issues.push(`must have a length of at least ${constraints.minLength}`);
+      if (constraints.maxLength !== undefined && value.length > constraints.maxLength)
+        issues.push(`must have a length of at most ${constraints.maxLength}`);
+    }
+
+    if (constraints.pattern !== undefined && items.some((item) => !constraints.pattern.test(String(item))))
+      issues.push(`must match ${constraints.pattern}`);
+
+    if (constraints.oneOf !== undefined && items.some((item) => !constraints.oneOf.includes(item)))
+      issues.push(`must be one of ${constraints.oneOf.join(', ')}`);
+
+    if (constraints.validate !== undefined) {
+      const result = constraints.validate(value);
+
+      if (result === false) issues.push('failed validation');
+      if (typeof result === 'string') issues.push(result);
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,360 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: schema_generators.ts
+    Description: Generators for .env.example files, Markdown references and JSON Schemas from a schema.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { ISchemaEntry, Schema } from './schema';
+import typeConverters from './type_converters';
+import StageDefaults from './stage_defaults';
+
+/**
+ * A JSON Schema document, or one of the subschemas within it.
+ */
+export interface IJsonSchema {
+  /**
+   * The JSON Schema dialect of the document.
+   */
+  $schema?: string;
+
+  /**
+   * The JSON type, or types, of the value.
+   */
+  type?: string | string[];
+
+  /**
+   * A description of the value.
+   */
+  description?: string;
+
+  /**
+   * The schemas of the properties of an object, keyed by name.
+   */
+  properties?: Record<string, IJsonSchema>;
+
+  /**
+   * The names of the properties an object must have.
+   */
+  required?: string[];
+
+  /**
+   * The schema of the items of an array.
+   */
+  items?: IJsonSchema;
+
+  /**
+   * The schema of the values of an object whose keys are not known, or false if no other keys are allowed.
+   */
+  additionalProperties?: IJsonSchema | boolean;
+
+  /**
+   * Any other keyword, like `default`, `enum`, `minimum` or `format`.
+   */
+  [keyword: string]: unknown;
+}
+
+/**
+ * A generator for files that document a schema, so `.env.example` files and reference tables do not drift from the code.
+ *
+ * @internal This class is only ingested internally.
+ */
+export default abstract class SchemaGenerators {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _jsonTypes = new Map<string, IJsonSchema>([
+    ['string', { type: 'string' }],
+    ['number', { type: 'number' }],
+    ['bigint', { type: 'integer' }],
+    ['boolean', { type: 'boolean' }],
+    ['object', { type: 'object' }],
+    ['regexp', { type: 'string', format: 'regex' }],
+    ['duration', { type: ['string', 'number'] }],
+    ['bytes', { type: ['string', 'number'] }],
+    ['url', { type: 'string', format: 'uri' }],
+    ['port', { type: 'integer', minimum: 0, maximum: 65535 }],
+    ['date', { type: 'string', format: 'date-time' }],
+    ['ip', { type: 'string' }],
+    ['cidr', { type: 'string' }],
+  ]);
+
+  /**
+   * Generates a commented `.env.example` file from the schema.
+   *
+   * Each variable is preceded by its description, type and flags, and set to its default value. Secrets and variables without a
+   * static default are left empty.
+   *
+   * @example
+   * ```typescript
+   * import generators from '@lib/environment/schema_generators';
+   *
+   * generators.toEnvExample({ port: { name: 'PORT', default: 8080, description: 'The port to listen on.' } });
+   * // '# The port to listen on.\n# Type: number. Default: 8080.\nPORT=8080\n'
+   * ```
+   * @param {Schema} schema The schema.
+   * @returns {string} The contents of the file.
+   */
+  public static toEnvExample(schema: Schema): string {
+    const blocks = Object.entries(schema).map(([property, entry]) => {
+      const lines = entry.description?.split(/\r?\n/).map((line) => `# ${line}`.trimEnd()) ?? [];
+      const type = this._typeOf(entry);
+      const notes = [`Type: ${type}.`];
+      const example = this._formatDefault(entry);
+
+      if (entry.required) notes.push('Required.');
+      else if (entry.requiredIn?.length) notes.push(`Required in ${entry.requiredIn.join(', ')}.`);
+      if (entry.secret) notes.push('Secret.');
+      if (example !== undefined && !entry.secret) notes.push(`Default: ${example}.`);
+      if (entry.aliases?.length) notes.push(`Aliases: ${entry.aliases.join(', ')}.`);
+      if (entry.deprecated?.length) notes.push(`Deprecated names: ${entry.deprecated.join(', ')}.`);
+
+      lines.push(`# ${notes.join(' ')}`);
+      lines.push(`${entry.name ?? property}=${entry.secret ? '' : this._quote(this._serializeDefault(entry) ?? '')}`);
+
+      return lines.join('\n');
+    });
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  /**
+   * Generates a Markdown reference table from the schema.
+   *
+   * @example
+   * ```typescript
+   * import generators from '@lib/environment/schema_generators';
+   *
+   * generators.toMarkdown({ port: { name: 'PORT', default: 8080, description: 'The port to listen on.' } });
+   * // | Variable | Type     | Required | Default | Description            |
+   * // | -------- | -------- | -------- | ------- | ---------------------- |
+   * // | `PORT`   | `number` | No       | `8080`  | The port to listen on. |
+   * ```
+   * @param {Schema} schema The schema.
+   * @returns {string} The table, with the columns padded to line up.
+   */
+  public static toMarkdown(schema: Schema): string {
+    const rows = Object.entries(schema).map(([property, entry]) => {
+      const example = entry.secret ? undefined : this._formatDefault(entry);
+      const code = (names: string[]) => names.map((name) => `\`${name}\``).join(', ');
+      const description = [
+        entry.description,
+        entry.secret ? '**Secret.**' : undefined,
+        entry.aliases?.length ? `Aliases: ${code(entry.aliases)}.` : undefined,
+        entry.deprecated?.length ? `Deprecated names: ${code(entry.deprecated)}.` : undefined,
+      ]
+        .filter(Boolean)
+        .join(' ');
+
+      return [
+        `\`${entry.name ?? property}\``,
+        `\`${this._typeOf(entry)}\``,
+        entry.required ? 'Yes' : entry.requiredIn?.length ? `In ${entry.requiredIn.join(', ')}` : 'No',
+        example === undefined ? '' : example === 'computed' ? '*computed*' : `\`${example}\``,
+        description.replace(/\r?\n/g, ' '),
+      ].map((cell) => cell.replace(/\|/g, '\\|'));
+    });
+
+    const table = [['Variable', 'Type', 'Required', 'Default', 'Description'], [], ...rows];
+    const widths = table[0].map((_, column) => Math.max(3, ...table.map((row) => row[column]?.length ?? 0)));
+
+    return (
+      table
+        .map((row, index) =>
+          index === 1
+            ? `| ${widths.map((width) => '-'.repeat(width)).join(' | ')} |`
+            : `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`,
+        )
+        .join('\n') + '\n'
+    );
+  }
+
+  /**
+   * Generates a JSON Schema that describes the converted values of the variables in the schema.
+   *
+   * @example
+   * ```typescript
+   * import generators from '@lib/environment/schema_generators';
+   *
+   * generators.toJsonSchema({ port: { name: 'PORT', type: 'port', required: true } });
+   * // { $schema: '...', type: 'object', properties: { PORT: { type: 'integer', minimum: 0, maximum: 65535 } }, required: ['PORT'] }
+   * ```
+   * @param {Schema} schema The schema.
+   * @returns {IJsonSchema} The JSON Schema, keyed by the names of the variables.
+   */
+  public static toJsonSchema(schema: Schema): IJsonSchema {
+    const properties: Record<string, IJsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [property, entry] of Object.entries(schema)) {
+      const name = entry.name ?? property;
+      const definition = this._jsonTypeOf(this._typeOf(entry));
+      const constraints = entry.constraints ?? {};
+
+      if (entry.description !== undefined) definition.description = entry.description;
+
+      if (constraints.min !== undefined) definition.minimum = Number(constraints.min);
+      if (constraints.max !== undefined) definition.maximum = Number(constraints.max);
+
+      const lengthPrefix = definition.type === 'array' ? 'Items' : 'Length';
+      if (constraints.minLength !== undefined) definition[`min${lengthPrefix}`] = constraints.minLength;
+      if (constraints.maxLength !== undefined) definition[`max${lengthPrefix}`] = constraints.maxLength;
+
+      const target = definition.items ?? definition;
+      if (constraints.pattern !== undefined) target.pattern = constraints.pattern.source;
+      if (constraints.oneOf !== undefined) target.enum = [...constraints.oneOf];
+
+      if (entry.secret) definition.writeOnly = true;
+      else if (this._defaultOf(entry) !== undefined && typeof this._defaultOf(entry) !== 'function')
+        definition.default = this._toJsonValue(this._defaultOf(entry));
+
+      properties[name] = definition;
+      if (entry.required) required.push(name);
+    }
+
+    return {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+
+  /**
+   * Gets the type of the schema entry, inferring it from the default value if it is not specified.
+   * @param {ISchemaEntry} entry The schema entry.
+   * @returns {string} The type of the variable.
+   * @internal This is a private member.
+   */
+  private static _typeOf(entry: ISchemaEntry<any>): string {
+    if (entry.type !== undefined) return entry.type;
+
+    const value =
+      entry.default instanceof StageDefaults
+        ? this._defaultOf(entry) ?? Object.values(entry.default.stages)[0]
+        : entry.default;
+
+    if (value === null || value === undefined || typeof value === 'function') return 'string';
+    if (value instanceof RegExp) return 'regexp';
+    if (value instanceof Map) return 'map<string,string>';
+    if (Array.isArray(value)) return 'array<string>';
+
+    return typeof value;
+  }
+
+  /**
+   * Gets the JSON Schema of the given type.
+   * @param {string} type The type of the variable.
+   * @returns {IJsonSchema} A new JSON Schema for the type.
+   * @internal This is a private member.
+   */
+  private static _jsonTypeOf(type: string): IJsonSchema {
+    const arrayOf = /^array<(.+)>$/.exec(type)?.[1];
+    if (arrayOf !== undefined) return { type: 'array', items: this._jsonTypeOf(arrayOf) };
+
+    const mapOf = /^map<[^,]+,(.+)>$/.exec(type)?.[1];
+    if (mapOf !== undefined) return { type: 'object', additionalProperties: this._jsonTypeOf(mapOf) };
+
+    const allowed = /^enum<(.+)>$/.exec(type)?.[1].split('|');
+    if (allowed !== undefined) return { type: 'string', enum: allowed };
+
+    return { ...(this._jsonTypes.get(type) ?? {}) };
+  }
+
+  /**
+   * Converts a default value to the value it is represented as in JSON.
+   * @param {unknown} value The default value.
+   * @returns {unknown} The JSON value.
+   * @internal This is a private member.
+   */
+  private static _toJsonValue(value: unknown): unknown {
+    if (value instanceof Map)
+      return Object.fromEntries([...value].map(([key, item]) => [key, this._toJsonValue(item)]));
+    if (Array.isArray(value)) return value.map((item) => this._toJsonValue(item));
+    if (value instanceof RegExp) return value.source;
+    if (value instanceof URL) return value.href;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'bigint') return Number(value);
+
+    return value;
+  }
+
+  /**
+   * Gets the default value of the schema entry, which is the `default` value of a default that differs by stage.
+   * @param {ISchemaEntry} entry The schema entry.
+   * @returns {unknown} The default value.
+   * @internal This is a private member.
+   */
+  private static _defaultOf(entry: ISchemaEntry<any>): unknown {
+    return entry.default instanceof StageDefaults ? entry.default.stages.default : entry.default;
+  }
+
+  /**
+   * Serializes the default value of the schema entry, if it has a static one.
+   * @param {ISchemaEntry} entry The schema entry.
+   * @param {unknown} [value] The default value to serialize, defaults to the default value of the entry.
+   * @returns {string | undefined} The serialized default value, or undefined if there is none or it is computed.
+   * @internal This is a private member.
+   */
+  private static _serializeDefault(entry: ISchemaEntry<any>, value = this._defaultOf(entry)): string | undefined {
+    if (value === undefined || value === null || typeof value === 'function') return undefined;
+
+    return typeConverters.serialize(value, this._typeOf(entry));
+  }
+
+  /**
+   * Formats the default value of the schema entry for documentation.
+   * @param {ISchemaEntry} entry The schema entry.
+   * @param {unknown} [value] The default value to format, defaults to the default value of the entry.
+   * @returns {string | undefined} The formatted default value on a single line, `computed` if it is a function, or undefined if
+   * there is none.
+   * @internal This is a private member.
+   */
+  private static _formatDefault(entry: ISchemaEntry<any>, value = entry.default): string | undefined {
+    if (value instanceof StageDefaults)
+      return Object.entries(value.stages)
+        .filter(([, item]) => item !== undefined)
+        .map(([stage, item]) => {
+          const formatted = this._formatDefault(entry, item) ?? 'none';
+
+          return stage === 'default' ? `${formatted} otherwise` : `${formatted} in ${stage}`;
+        })
+        .join(', ');
+
+    if (typeof value === 'function') return 'computed';
+
+    const serialized = this._serializeDefault(entry, value);
+
+    return serialized === '' ? '""' : serialized?.replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Quotes a value for a .env file if it would not be read back as is.
+   * @param {string} value The value.
+   * @returns {string} The value, quoted if needed.
+   * @internal This is a private member.
+   */
+  private static _quote(value: string): string {
+    if (!/[\s#"'`\\$]/.test(value)) return value;
+    if (!value.includes('\'')) return `'${value}'`;
+
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  }
+}
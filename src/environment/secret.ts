@@ -0,0 +1,92 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: secret.ts
+    Description: A wrapper for sensitive values that redacts itself when logged or serialized.
+    Written by: Nikita Petko
+*/
+
+import { inspect } from 'util';
+
+/**
+ * @internal This is a private member.
+ */
+const values = new WeakMap<Secret<unknown>, unknown>();
+
+/**
+ * A wrapper for sensitive values that redacts itself when logged or serialized.
+ *
+ * The value is not stored on the wrapper itself, so it does not leak through `util.inspect`, `JSON.stringify`, string
+ * concatenation or enumerating the properties of the wrapper. Call `reveal` to get it.
+ *
+ * @example
+ * ```typescript
+ * import { Secret } from '@mfdlabs/environment';
+ *
+ * const password = new Secret('hunter2');
+ *
+ * console.log(password); // Secret [REDACTED]
+ * JSON.stringify({ password }); // '{"password":"[REDACTED]"}'
+ * password.reveal(); // 'hunter2'
+ * ```
+ */
+export default class Secret<T = string> {
+  /**
+   * The text that is shown in place of a secret value.
+   */
+  public static readonly mask = '[REDACTED]';
+
+  /**
+   * Constructs a new Secret.
+   * @param {T} value The sensitive value.
+   */
+  public constructor(value: T) {
+    values.set(this, value);
+  }
+
+  /**
+   * Returns the sensitive value.
+   * @returns {T} The sensitive value.
+   */
+  public reveal(): T {
+    return values.get(this) as T;
+  }
+
+  /**
+   * Returns the mask instead of the value.
+   * @returns {string} The mask.
+   */
+  public toString(): string {
+    return Secret.mask;
+  }
+
+  /**
+   * Returns the mask instead of the value, used by `JSON.stringify`.
+   * @returns {string} The mask.
+   */
+  public toJSON(): string {
+    return Secret.mask;
+  }
+
+  /**
+   * Returns the mask instead of the value, used by `util.inspect` and `console.log`.
+   * @returns {string} The mask.
+   */
+  public [inspect.custom](): string {
+    return `Secret ${Secret.mask}`;
+  }
+}
@@ -0,0 +1,70 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: stage_defaults.ts
+    Description: A default value that differs by deployment stage.
+    Written by: Nikita Petko
+*/
+
+import type { DefaultValueGetter } from './index';
+
+/**
+ * The deployment stages, which are the well-known stages or any custom stage.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export type Stage = 'development' | 'test' | 'staging' | 'production' | (string & {});
+
+/**
+ * The default values of each stage, with `default` used for the stages that are not listed.
+ */
+export type StageDefaultValues<T> = { [S in Stage | 'default']?: DefaultValueGetter<T> };
+
+/**
+ * A default value that differs by deployment stage, created with `Environment.perStage`.
+ *
+ * @example
+ * ```typescript
+ * import environment from '@mfdlabs/environment';
+ *
+ * // 10 connections in production, 2 everywhere else.
+ * env.getOrDefault('POOL_SIZE', environment.perStage({ production: 10, default: 2 }));
+ * ```
+ */
+export default class StageDefaults<T> {
+  /**
+   * The default values of each stage.
+   */
+  public readonly stages: Readonly<StageDefaultValues<T>>;
+
+  /**
+   * Constructs a new StageDefaults.
+   * @param {StageDefaultValues<T>} values The default values of each stage, with `default` used for the other stages.
+   */
+  public constructor(values: StageDefaultValues<T>) {
+    this.stages = Object.freeze({ ...values });
+  }
+
+  /**
+   * Gets the default value of the given stage.
+   * @param {Stage} stage The stage.
+   * @returns {DefaultValueGetter<T> | undefined} The default value of the stage, the `default` value if the stage is not listed, or
+   * undefined if neither is.
+   */
+  public resolve(stage: Stage): DefaultValueGetter<T> | undefined {
+    return Object.prototype.hasOwnProperty.call(this.stages, stage) ? this.stages[stage] : this.stages.default;
+  }
+}
@@ -22,6 +22,10 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import TypeConversionError from './errors/type_conversion_error';
+
+import * as net from 'net';
+
 /**
  * Represents a method that converts the given value to the given type.
  * 
@@ -29,15 +33,309 @@
  */
 export type TypeConverter<T> = (value: any) => T;
 
+/**
+ * Represents a custom type that environment variables can be converted to.
+ */
+export interface ICustomTypeConverter<T = unknown> {
+  /**
+   * Parses the raw value of an environment variable. Throw if the value is invalid.
+   *
+   * @param {string} value The raw value.
+   * @param {boolean} strict True if the value is being parsed in strict mode.
+   * @returns {T} The parsed value.
+   */
+  parse(value: string, strict: boolean): T;
+
+  /**
+   * Serializes a value back to the raw string it would be set as in the environment.
+   *
+   * @param {T} value The value.
+   * @returns {string} The raw value.
+   */
+  serialize?(value: T): string;
+}
+
+/**
+ * Options for splitting the raw value of an array or map environment variable.
+ */
+export interface IArrayParseOptions {
+  /**
+   * The delimiter between the items of an array or the entries of a map, defaults to `,`.
+   */
+  delimiter?: string;
+
+  /**
+   * The separator between the key and value of a map entry, defaults to `:`.
+   */
+  separator?: string;
+
+  /**
+   * Trims the whitespace around each item, defaults to false.
+   */
+  trim?: boolean;
+
+  /**
+   * Drops empty items, defaults to false.
+   */
+  removeEmpty?: boolean;
+
+  /**
+   * Accepts a JSON array (or a JSON object for maps) as the raw value, defaults to false.
+   */
+  json?: boolean;
+}
+
+/**
+ * Represents a range of IP addresses in CIDR notation.
+ */
+export interface ICidrRange {
+  /**
+   * The address of the range.
+   */
+  address: string;
+
+  /**
+   * The length of the prefix of the range.
+   */
+  prefix: number;
+
+  /**
+   * The IP family of the range.
+   */
+  family: 4 | 6;
+
+  /**
+   * Determines if the given IP address is within the range.
+   *
+   * @param {string} ip The IP address.
+   * @returns {boolean} True if the address is within the range.
+   */
+  contains(ip: string): boolean;
+}
+
 /**
  * A simple helper that converts the given value to the given type.
  *
  * @internal This class is only ingested internally.
  */
 export default abstract class TypeConverters {
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _builtInTypes = new Set([
+    'boolean',
+    'number',
+    'bigint',
+    'object',
+    'regexp',
+    'string',
+    'function',
+  ]);
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _customConverters = new Map<string, ICustomTypeConverter>();
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _namedConverters = new Map<string, ICustomTypeConverter<any>>([
+    ['duration', { parse: (value) => TypeConverters.toDuration(value), serialize: (value) => `${value}ms` }],
+    ['bytes', { parse: (value) => TypeConverters.toBytes(value) }],
+    ['url', { parse: (value) => TypeConverters.toUrl(value), serialize: (value) => value.href }],
+    ['port', { parse: (value) => TypeConverters.toPort(value) }],
+    ['date', { parse: (value) => TypeConverters.toDate(value), serialize: (value) => value.toISOString() }],
+    ['ip', { parse: (value) => TypeConverters.toIp(value) }],
+    [
+      'cidr',
+      { parse: (value) => TypeConverters.toCidr(value), serialize: (value) => `${value.address}/${value.prefix}` },
+    ],
+  ]);
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _durationUnits = new Map([
+    ['ms', 1],
+    ['s', 1000],
+    ['m', 60 * 1000],
+    ['h', 60 * 60 * 1000],
+    ['d', 24 * 60 * 60 * 1000],
+    ['w', 7 * 24 * 60 * 60 * 1000],
+  ]);
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _byteUnits = new Map([
+    ['', 1],
+    ['b', 1],
+    ['kb', 1000],
+    ['mb', 1000 ** 2],
+    ['gb', 1000 ** 3],
+    ['tb', 1000 ** 4],
+    ['pb', 1000 ** 5],
+    ['k', 1024],
+    ['m', 1024 ** 2],
+    ['g', 1024 ** 3],
+    ['t', 1024 ** 4],
+    ['p', 1024 ** 5],
+    ['kib', 1024],
+    ['mib', 1024 ** 2],
+    ['gib', 1024 ** 3],
+    ['tib', 1024 ** 4],
+    ['pib', 1024 ** 5],
+  ]);
+
+  /**
+   * Registers a custom type.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.register('url', { parse: (value) => new URL(value), serialize: (value) => value.href });
+   * convert.convert('url', 'https://example.com'); // URL { href: 'https://example.com/', ... }
+   * ```
+   * @param {string} name The name of the type.
+   * @param {ICustomTypeConverter<T>} converter The converter of the type.
+   * @returns {void} Nothing.
+   * @throws {TypeError} If the name is not a valid type name or belongs to a built-in type.
+   */
+  public static register<T>(name: string, converter: ICustomTypeConverter<T>): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_-]*$/.test(name) || name === 'array')
+      throw new TypeError(`'${name}' is not a valid type name`);
+    if (this._builtInTypes.has(name) || this._namedConverters.has(name) || name === 'enum')
+      throw new TypeError(`'${name}' is a built-in type and cannot be replaced`);
+
+    this._customConverters.set(name, converter as ICustomTypeConverter);
+  }
+
+  /**
+   * Removes a custom type.
+   *
+   * @param {string} name The name of the type.
+   * @returns {boolean} True if the type was registered.
+   */
+  public static unregister(name: string): boolean {
+    return this._customConverters.delete(name);
+  }
+
+  /**
+   * Determines if the given type is converted by a named converter, which are the custom types and the built-in types that are not
+   * handled by `getOrDefault` directly (`duration`, `bytes`, `url`, `port`, `date`, `ip`, `cidr` and `enum<...>`).
+   *
+   * @param {string} name The name of the type.
+   * @returns {boolean} True if the type has a named converter.
+   */
+  public static hasConverter(name: string): boolean {
+    return this._getConverter(name) !== undefined;
+  }
+
+  /**
+   * Converts the given value to the given named type.
+   *
+   * In strict mode any error thrown by a custom converter is rethrown as a TypeConversionError. The built-in named types always throw
+   * a TypeConversionError for invalid values.
+   *
+   * @param {string} name The name of the type.
+   * @param {string} value The raw value to be converted.
+   * @param {boolean?} strict If true, conversion failures throw a TypeConversionError.
+   * @returns {T} The converted value.
+   * @throws {TypeError} If the type is not registered.
+   * @throws {TypeConversionError} If the value cannot be converted in strict mode.
+   */
+  public static convert<T = unknown>(name: string, value: string, strict = false): T {
+    const converter = this._getConverter(name);
+    if (converter === undefined) throw new TypeError(`'${name}' is not a registered type`);
+
+    if (!strict) return converter.parse(value, strict) as T;
+
+    try {
+      return converter.parse(value, strict) as T;
+    } catch (error) {
+      if (error instanceof TypeConversionError) throw error;
+
+      throw new TypeConversionError(value, name, error);
+    }
+  }
+
+  /**
+   * Gets the named converter of the given type.
+   *
+   * @param {string} name The name of the type.
+   * @returns {ICustomTypeConverter | undefined} The converter, or undefined if there is none.
+   * @internal This is a private member.
+   */
+  private static _getConverter(name: string): ICustomTypeConverter | undefined {
+    const converter = this._customConverters.get(name) ?? this._namedConverters.get(name);
+    if (converter !== undefined) return converter;
+
+    const allowed = /^enum<(.+)>$/.exec(name)?.[1].split('|');
+    if (allowed !== undefined) return { parse: (value) => this.toEnum(value, allowed) };
+
+    return undefined;
+  }
+
+  /**
+   * Serializes the given value back to the raw string it would be set as in the environment.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.serialize([1, 2, 3]); // '1,2,3'
+   * convert.serialize({ foo: 'bar' }); // '{"foo":"bar"}'
+   * convert.serialize(/^foo$/); // '^foo$'
+   * convert.serialize(new Map([['a', 1]])); // 'a:1'
+   * ```
+   * @param {any} value The value to be serialized.
+   * @param {string?} type The type of the value, used to find the serializer of a custom type.
+   * @returns {string} The serialized value.
+   */
+  public static serialize(value: any, type?: string): string {
+    if (type?.startsWith('array<') && Array.isArray(value))
+      return value.map((item) => this.serialize(item, type.slice('array<'.length, -1))).join(',');
+
+    if (value instanceof Map) {
+      const [, keyType, valueType] = /^map<([^,]+),(.+)>$/.exec(type ?? '') ?? [];
+
+      return [...value]
+        .map(([key, item]) => `${this.serialize(key, keyType)}:${this.serialize(item, valueType)}`)
+        .join(',');
+    }
+
+    const serializer = type !== undefined ? this._getConverter(type)?.serialize : undefined;
+    if (serializer !== undefined) return serializer(value);
+
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.map((item) => this.serialize(item)).join(',');
+    if (value instanceof RegExp) return value.source;
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+
+    return String(value);
+  }
+
+  /**
+   * @internal This is a private member.
+   */
+  private static readonly _strictBooleans = new Map([
+    ['true', true],
+    ['false', false],
+    ['1', true],
+    ['0', false],
+    ['yes', true],
+    ['no', false],
+    ['on', true],
+    ['off', false],
+  ]);
+
   /**
    * Converts the given value to a boolean.
    *
+   * In strict mode only `true`, `false`, `1`, `0`, `yes`, `no`, `on` and `off` (in any case) are accepted.
+   *
    * @example
    * ```typescript
    * import convert from '@lib/environment/type_converters';
@@ -50,14 +348,26 @@ export default abstract class TypeConverters {
    * convert.toBoolean('false'); // false
    * convert.toBoolean('1'); // true
    * convert.toBoolean('0'); // false
+   * convert.toBoolean('yes please', false, true); // throws TypeConversionError
    * ```
    * @param {any} value The value to be converted.
    * @param {boolean?} defaultValue The default value to be returned if the given value cannot be converted to a boolean.
+   * @param {boolean?} strict If true, throws instead of returning the default value when the value cannot be converted.
    * @returns {boolean} The converted value.
+   * @throws {TypeConversionError} If the value cannot be converted in strict mode.
    */
-  public static toBoolean(value: any, defaultValue?: boolean): boolean {
+  public static toBoolean(value: any, defaultValue?: boolean, strict = false): boolean {
     if (typeof value === 'boolean') return value;
 
+    if (strict) {
+      if (value === undefined || value === null) return defaultValue ?? false;
+
+      const result = this._strictBooleans.get(String(value).trim().toLowerCase());
+      if (result === undefined) throw new TypeConversionError(value, 'boolean');
+
+      return result;
+    }
+
     const valueAsNumber = parseInt(value, 10);
 
     if (!isNaN(valueAsNumber)) {
@@ -74,6 +384,122 @@ export default abstract class TypeConverters {
     }
   }
 
+  /**
+   * Converts the given value to a number.
+   *
+   * In strict mode the whole value must be a number, where `parseFloat` would otherwise ignore trailing characters or return NaN.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toNumber('1.5'); // 1.5
+   * convert.toNumber('abc'); // NaN
+   * convert.toNumber('abc', true); // throws TypeConversionError
+   * ```
+   * @param {any} value The value to be converted.
+   * @param {boolean?} strict If true, throws instead of returning NaN when the value cannot be converted.
+   * @returns {number} The converted value.
+   * @throws {TypeConversionError} If the value cannot be converted in strict mode.
+   */
+  public static toNumber(value: any, strict = false): number {
+    if (!strict) return parseFloat(value);
+    if (value === undefined || value === null) return value;
+    if (typeof value === 'number' && !isNaN(value)) return value;
+
+    const result = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (isNaN(result)) throw new TypeConversionError(value, 'number');
+
+    return result;
+  }
+
+  /**
+   * Converts the given value to a bigint.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toBigInt('1'); // 1n
+   * convert.toBigInt('1.5', true); // throws TypeConversionError
+   * ```
+   * @param {any} value The value to be converted.
+   * @param {boolean?} strict If true, throws a TypeConversionError instead of the native error when the value cannot be converted.
+   * @returns {bigint} The converted value.
+   * @throws {TypeConversionError} If the value cannot be converted in strict mode.
+   */
+  public static toBigInt(value: any, strict = false): bigint {
+    if (!strict) return BigInt(value);
+    if (value === undefined || value === null) return value;
+
+    try {
+      return BigInt(value);
+    } catch (error) {
+      throw new TypeConversionError(value, 'bigint', error);
+    }
+  }
+
+  /**
+   * Converts the given JSON string to an object.
+   *
+   * In strict mode the JSON must also describe an object or an array.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toObject('{"foo":"bar"}'); // { foo: 'bar' }
+   * convert.toObject('1', true); // throws TypeConversionError
+   * ```
+   * @param {any} value The value to be converted.
+   * @param {boolean?} strict If true, throws a TypeConversionError instead of the native error when the value cannot be converted.
+   * @returns {T} The converted value.
+   * @throws {TypeConversionError} If the value cannot be converted in strict mode.
+   */
+  public static toObject<T = object>(value: any, strict = false): T {
+    if (!strict) return JSON.parse(value);
+    if (value === undefined || value === null) return value;
+
+    let result: unknown;
+
+    try {
+      result = JSON.parse(value);
+    } catch (error) {
+      throw new TypeConversionError(value, 'object', error);
+    }
+
+    if (typeof result !== 'object' || result === null) throw new TypeConversionError(value, 'object');
+
+    return result as T;
+  }
+
+  /**
+   * Converts the given value to a regular expression.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toRegExp('^foo$', 'i'); // /^foo$/i
+   * convert.toRegExp('(', undefined, true); // throws TypeConversionError
+   * ```
+   * @param {any} value The value to be converted.
+   * @param {string?} flags The flags of the regular expression.
+   * @param {boolean?} strict If true, throws a TypeConversionError instead of the native error when the value cannot be converted.
+   * @returns {RegExp} The converted value.
+   * @throws {TypeConversionError} If the value cannot be converted in strict mode.
+   */
+  public static toRegExp(value: any, flags?: string, strict = false): RegExp {
+    if (!strict) return new RegExp(value, flags);
+    if (value === undefined || value === null) return value;
+
+    try {
+      return new RegExp(value, flags);
+    } catch (error) {
+      throw new TypeConversionError(value, 'regexp', error);
+    }
+  }
+
   /**
    * Converts the given string array to an array of T.
    * 
@@ -90,4 +516,378 @@ export default abstract class TypeConverters {
   public static toArray<T>(value: string[], converter: TypeConverter<T>): T[] {
     return value.map(converter);
   }
+
+  /**
+   * Converts the given key and value pairs to a map of K to V.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toMap([['a', '1'], ['b', '2']], (key) => key, (value) => parseInt(value, 10)); // Map { 'a' => 1, 'b' => 2 }
+   * ```
+   * @param {[string, string][]} entries The key and value pairs to be converted.
+   * @param {TypeConverter<K>} keyConverter The converter function of the keys.
+   * @param {TypeConverter<V>} valueConverter The converter function of the values.
+   * @returns {Map<K, V>} The converted map.
+   */
+  public static toMap<K, V>(
+    entries: [string, string][],
+    keyConverter: TypeConverter<K>,
+    valueConverter: TypeConverter<V>,
+  ): Map<K, V> {
+    return new Map(entries.map(([key, value]) => [keyConverter(key), valueConverter(value)]));
+  }
+
+  /**
+   * Splits the raw value of an array environment variable into its items.
+   *
+   * Delimiters within quotes, braces and brackets are ignored so JSON items can contain the delimiter, and quoted items are unquoted.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.splitArray('a,"b,c",,d'); // ['a', 'b,c', '', 'd']
+   * convert.splitArray('a, "b,c", ,d', { trim: true, removeEmpty: true }); // ['a', 'b,c', 'd']
+   * convert.splitArray('{"a":1,"b":2},{"a":3}'); // ['{"a":1,"b":2}', '{"a":3}']
+   * convert.splitArray('["a","b"]', { json: true }); // ['a', 'b']
+   * convert.splitArray('a;b', { delimiter: ';' }); // ['a', 'b']
+   * ```
+   * @param {string} value The raw value.
+   * @param {IArrayParseOptions?} options The options for splitting the value.
+   * @returns {string[]} The items.
+   */
+  public static splitArray(value: string, options?: IArrayParseOptions): string[] {
+    const { delimiter = ',', trim = false, removeEmpty = false, json = false } = options ?? {};
+    const trimmed = value.trim();
+
+    if (json && trimmed.startsWith('[') && trimmed.endsWith(']')) {
+      const parsed = this._tryParseJson(trimmed);
+
+      if (Array.isArray(parsed)) return parsed.map((item) => (typeof item === 'string' ? item : JSON.stringify(item)));
+    }
+
+    const items: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+    let depth = 0;
+
+    for (let i = 0; i < value.length; i++) {
+      const character = value[i];
+
+      if (quote !== undefined) {
+        current += character;
+
+        if (character === '\\' && quote === '"') current += value[++i] ?? '';
+        else if (character === quote) quote = undefined;
+
+        continue;
+      }
+
+      const isStartOfItem = current.trim() === '';
+
+      if (character === '"' && (depth > 0 || isStartOfItem)) quote = '"';
+      else if (character === '\'' && depth === 0 && isStartOfItem) quote = '\'';
+      else if (character === '{' || character === '[') depth++;
+      else if ((character === '}' || character === ']') && depth > 0) depth--;
+      else if (depth === 0 && value.startsWith(delimiter, i)) {
+        items.push(current);
+        current = '';
+        i += delimiter.length - 1;
+
+        continue;
+      }
+
+      current += character;
+    }
+
+    items.push(current);
+
+    return items.map((item) => this._unquote(item, trim)).filter((item) => !removeEmpty || item !== '');
+  }
+
+  /**
+   * Splits the raw value of a map environment variable into its key and value pairs.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.splitMap('a:1,b:2'); // [['a', '1'], ['b', '2']]
+   * convert.splitMap('a=1;b=2', { delimiter: ';', separator: '=' }); // [['a', '1'], ['b', '2']]
+   * convert.splitMap('{"a":1,"b":2}', { json: true }); // [['a', '1'], ['b', '2']]
+   * ```
+   * @param {string} value The raw value.
+   * @param {IArrayParseOptions?} options The options for splitting the value.
+   * @returns {[string, string][]} The key and value pairs.
+   * @throws {TypeConversionError} If an entry does not contain the separator.
+   */
+  public static splitMap(value: string, options?: IArrayParseOptions): [string, string][] {
+    const { separator = ':', trim = false, json = false } = options ?? {};
+    const trimmed = value.trim();
+
+    if (json && trimmed.startsWith('{') && trimmed.endsWith('}')) {
+      const parsed = this._tryParseJson(trimmed);
+
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed))
+        return Object.entries(parsed).map(([key, item]) => [key, typeof item === 'string' ? item : JSON.stringify(item)]);
+    }
+
+    return this.splitArray(value, { ...options, json: false }).map((entry) => {
+      const index = entry.indexOf(separator);
+      if (index === -1) throw new TypeConversionError(entry, 'map entry');
+
+      const key = entry.substring(0, index);
+      const item = entry.substring(index + separator.length);
+
+      return [this._unquote(key, trim), this._unquote(item, trim)];
+    });
+  }
+
+  /**
+   * Converts the given duration to milliseconds.
+   *
+   * Durations are numbers followed by a unit, where the units are `ms`, `s`, `m`, `h`, `d` and `w`. Multiple units can be combined,
+   * and a number without a unit is taken as milliseconds.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toDuration('30s'); // 30000
+   * convert.toDuration('1h30m'); // 5400000
+   * convert.toDuration('250'); // 250
+   * ```
+   * @param {string} value The value to be converted.
+   * @returns {number} The duration in milliseconds.
+   * @throws {TypeConversionError} If the value is not a valid duration.
+   */
+  public static toDuration(value: string): number {
+    const trimmed = String(value).trim().toLowerCase();
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+    if (!/^(\d+(\.\d+)?(ms|s|m|h|d|w))+$/.test(trimmed)) throw new TypeConversionError(value, 'duration');
+
+    let result = 0;
+
+    for (const [, amount, , unit] of trimmed.matchAll(/(\d+(\.\d+)?)(ms|s|m|h|d|w)/g))
+      result += parseFloat(amount) * this._durationUnits.get(unit);
+
+    return result;
+  }
+
+  /**
+   * Converts the given byte size to a number of bytes.
+   *
+   * The SI units (`kB`, `MB`, `GB`, `TB`, `PB`) are powers of 1000, the IEC units (`KiB`, `MiB`, `GiB`, `TiB`, `PiB`) and the single
+   * letter units (`k`, `m`, `g`, `t`, `p`) are powers of 1024. Units are case insensitive and a number without a unit is taken as bytes.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toBytes('10MiB'); // 10485760
+   * convert.toBytes('1.5kB'); // 1500
+   * convert.toBytes('512'); // 512
+   * ```
+   * @param {string} value The value to be converted.
+   * @returns {number} The number of bytes.
+   * @throws {TypeConversionError} If the value is not a valid byte size.
+   */
+  public static toBytes(value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/.exec(String(value).trim().toLowerCase());
+    const multiplier = match && this._byteUnits.get(match[2]);
+
+    if (!multiplier) throw new TypeConversionError(value, 'bytes');
+
+    return Math.round(parseFloat(match[1]) * multiplier);
+  }
+
+  /**
+   * Converts the given value to a URL.
+   *
+   * @param {string} value The value to be converted.
+   * @returns {URL} The URL.
+   * @throws {TypeConversionError} If the value is not a valid URL.
+   */
+  public static toUrl(value: string): URL {
+    try {
+      return new URL(String(value).trim());
+    } catch (error) {
+      throw new TypeConversionError(value, 'url', error);
+    }
+  }
+
+  /**
+   * Converts the given value to a port number between 0 and 65535.
+   *
+   * @param {string} value The value to be converted.
+   * @returns {number} The port number.
+   * @throws {TypeConversionError} If the value is not a valid port number.
+   */
+  public static toPort(value: string): number {
+    const trimmed = String(value).trim();
+    const port = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+
+    if (isNaN(port) || port > 65535) throw new TypeConversionError(value, 'port');
+
+    return port;
+  }
+
+  /**
+   * Converts the given ISO 8601 date or date and time to a date.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * convert.toDate('2022-11-20'); // 2022-11-20T00:00:00.000Z
+   * convert.toDate('2022-11-20T12:00:00+01:00'); // 2022-11-20T11:00:00.000Z
+   * ```
+   * @param {string} value The value to be converted.
+   * @returns {Date} The date.
+   * @throws {TypeConversionError} If the value is not a valid ISO 8601 date.
+   */
+  public static toDate(value: string): Date {
+    const trimmed = String(value).trim();
+    const isIso = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i.test(trimmed);
+    const date = new Date(trimmed);
+
+    if (!isIso || isNaN(date.getTime())) throw new TypeConversionError(value, 'date');
+
+    return date;
+  }
+
+  /**
+   * Validates the given IP address.
+   *
+   * @param {string} value The value to be converted.
+   * @returns {string} The IP address.
+   * @throws {TypeConversionError} If the value is not a valid IPv4 or IPv6 address.
+   */
+  public static toIp(value: string): string {
+    const trimmed = String(value).trim();
+
+    if (net.isIP(trimmed) === 0) throw new TypeConversionError(value, 'ip');
+
+    return trimmed;
+  }
+
+  /**
+   * Converts the given CIDR notation to a range of IP addresses. A bare IP address is a range of a single address.
+   *
+   * @example
+   * ```typescript
+   * import convert from '@lib/environment/type_converters';
+   *
+   * const range = convert.toCidr('10.0.0.0/8'); // { address: '10.0.0.0', prefix: 8, family: 4, contains: [Function] }
+   *
+   * range.contains('10.1.2.3'); // true
+   * range.contains('192.168.0.1'); // false
+   * ```
+   * @param {string} value The value to be converted.
+   * @returns {ICidrRange} The range.
+   * @throws {TypeConversionError} If the value is not a valid CIDR range.
+   */
+  public static toCidr(value: string): ICidrRange {
+    const [address, prefixText, ...rest] = String(value).trim().split('/');
+    const family = net.isIP(address);
+    const bits = family === 4 ? 32 : 128;
+    const prefix = prefixText === undefined ? bits : /^\d+$/.test(prefixText) ? parseInt(prefixText, 10) : NaN;
+
+    if (family === 0 || rest.length > 0 || isNaN(prefix) || prefix > bits) throw new TypeConversionError(value, 'cidr');
+
+    const shift = BigInt(bits - prefix);
+    const network = this._ipToBigInt(address) >> shift;
+
+    return {
+      address,
+      prefix,
+      family: family as 4 | 6,
+      contains: (ip: string) => net.isIP(ip) === family && this._ipToBigInt(ip) >> shift === network,
+    };
+  }
+
+  /**
+   * Validates that the given value is one of the allowed values.
+   *
+   * @param {string} value The value to be converted.
+   * @param {string[]} allowed The allowed values.
+   * @returns {string} The value.
+   * @throws {TypeConversionError} If the value is not one of the allowed values.
+   */
+  public static toEnum(value: string, allowed: string[]): string {
+    const trimmed = String(value).trim();
+
+    if (!allowed.includes(trimmed)) throw new TypeConversionError(value, `enum<${allowed.join('|')}>`);
+
+    return trimmed;
+  }
+
+  /**
+   * Removes the quotes around a quoted item, along with the whitespace around the quotes.
+   *
+   * @param {string} item The item.
+   * @param {boolean} trim If true, the whitespace around an item that is not quoted is removed as well.
+   * @returns {string} The unquoted item.
+   * @internal This is a private member.
+   */
+  private static _unquote(item: string, trim: boolean): string {
+    const trimmed = item.trim();
+
+    if (trimmed.length < 2 || trimmed[0] !== trimmed[trimmed.length - 1]) return trim ? trimmed : item;
+    if (trimmed[0] === '\'') return trimmed.slice(1, -1);
+    if (trimmed[0] !== '"') return trim ? trimmed : item;
+
+    const parsed = this._tryParseJson(trimmed);
+
+    return typeof parsed === 'string' ? parsed : trimmed.slice(1, -1);
+  }
+
+  /**
+   * Parses the given JSON, returning undefined if it is invalid.
+   *
+   * @param {string} value The JSON.
+   * @returns {unknown} The parsed value, or undefined if it is invalid.
+   * @internal This is a private member.
+   */
+  private static _tryParseJson(value: string): unknown {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Converts the given IP address to a number.
+   *
+   * @param {string} ip The IP address.
+   * @returns {bigint} The IP address as a number.
+   * @internal This is a private member.
+   */
+  private static _ipToBigInt(ip: string): bigint {
+    if (net.isIPv4(ip)) return ip.split('.').reduce((result, octet) => (result << 8n) + BigInt(octet), 0n);
+
+    let address = ip.split('%')[0];
+
+    // Replace an embedded IPv4 address with its two hextets.
+    const embedded = /(\d+\.\d+\.\d+\.\d+)$/.exec(address)?.[1];
+    if (embedded !== undefined) {
+      const value = this._ipToBigInt(embedded);
+
+      address = address.replace(embedded, `${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`);
+    }
+
+    const [head, tail] = address.split('::');
+    const headParts = head ? head.split(':') : [];
+    const tailParts = tail ? tail.split(':') : [];
+    const parts =
+      tail === undefined
+        ? headParts
+        : [...headParts, ...new Array(8 - headParts.length - tailParts.length).fill('0'), ...tailParts];
+
+    return parts.reduce((result, part) => (result << 16n) + BigInt(parseInt(part, 16)), 0n);
+  }
 }
@@ -20,7 +20,159 @@
 	Written by: Nikita Petko
 */
 
-import environment, { DefaultValueGetter, EnvironmentVariableType, EnvironmentVariableArrayType } from './environment';
+import environment, {
+  DefaultValueGetter,
+  EnvironmentVariableType,
+  EnvironmentVariableArrayType,
+  EnvironmentVariableMapType,
+  EnvironmentVariableValue,
+  IEnvironmentVariableTypeMap,
+  IEnvironmentOptions,
+  IEnvFileLoadOptions,
+  IGetOrDefaultOptions,
+  ILoadedVariable,
+  ISecretOptions,
+  EnvironmentVariableSource,
+  IEnvironmentVariableDump,
+  IResolvedVariable,
+  IEnvironmentChangeEvent,
+  IWatchOptions,
+  IScopeOptions,
+  IBindOptions,
+  IStageOptions,
+  IEncryptionOptions,
+  IVariableAliases,
+  IAliasOptions,
+} from './environment';
+import StageDefaults, { Stage, StageDefaultValues } from './environment/stage_defaults';
+import Secret from './environment/secret';
+import { EncryptionKey, IDecryptFileOptions, IEncryptFileOptions } from './environment/env_crypto';
+import { env, EnvDecoratorOptions } from './environment/decorators';
+import { IArrayParseOptions, ICidrRange, ICustomTypeConverter } from './environment/type_converters';
+import { ISchemaConstraints, ISchemaEntry, Schema, SchemaEntryValue, SchemaValues } from './environment/schema';
+import { IJsonSchema } from './environment/schema_generators';
+import Rules, { IRule, RuleCondition } from './environment/rules';
+import { ConfigFileFormat } from './environment/config_file_parser';
+import {
+  IAsyncEnvironmentProvider,
+  IEnvironmentProvider,
+  IProvidedValue,
+  IProviderStatus,
+} from './environment/providers/environment_provider';
+import ProcessEnvProvider from './environment/providers/process_env_provider';
+import MemoryProvider from './environment/providers/memory_provider';
+import EnvFileProvider from './environment/providers/env_file_provider';
+import ConfigFileProvider, { IConfigFileProviderOptions } from './environment/providers/config_file_provider';
+import DirectoryProvider from './environment/providers/directory_provider';
+import RemoteProvider, {
+  IRemoteProviderOptions,
+  IRemoteSnapshot,
+  IRemoteSource,
+} from './environment/providers/remote_provider';
+import HttpSource, { IHttpSourceOptions } from './environment/providers/http_source';
+import { ContainerEngine, IRuntimeDetectionOptions, IRuntimeInfo } from './environment/runtime_detector';
+import {
+  CIProviderName,
+  CloudPlatformName,
+  ICIProvider,
+  ICloudPlatform,
+  IPlatformDetectionOptions,
+} from './environment/platform_detector';
+import EnvironmentValidationError, {
+  IEnvironmentValidationIssue,
+} from './environment/errors/environment_validation_error';
+import ConfigFileParseError from './environment/errors/config_file_parse_error';
+import DotEnvParseError from './environment/errors/dotenv_parse_error';
+import DecryptionError from './environment/errors/decryption_error';
+import RemoteSourceError from './environment/errors/remote_source_error';
+import EnvironmentVariableCycleError from './environment/errors/environment_variable_cycle_error';
+import EnvironmentVariableConflictError from './environment/errors/environment_variable_conflict_error';
+import EnvironmentVariableInterpolationError from './environment/errors/environment_variable_interpolation_error';
+import EnvironmentVariableParseError from './environment/errors/environment_variable_parse_error';
+import EnvironmentVariableSecretError from './environment/errors/environment_variable_secret_error';
+import TypeConversionError from './environment/errors/type_conversion_error';
 
-export { environment, DefaultValueGetter, EnvironmentVariableArrayType, EnvironmentVariableType };
+export {
+  environment,
+  env,
+  EnvDecoratorOptions,
+  DefaultValueGetter,
+  EnvironmentVariableArrayType,
+  EnvironmentVariableMapType,
+  EnvironmentVariableType,
+  EnvironmentVariableValue,
+  IEnvironmentVariableTypeMap,
+  IEnvironmentOptions,
+  IEnvFileLoadOptions,
+  IGetOrDefaultOptions,
+  ILoadedVariable,
+  ISecretOptions,
+  EnvironmentVariableSource,
+  IEnvironmentVariableDump,
+  IResolvedVariable,
+  IEnvironmentChangeEvent,
+  IWatchOptions,
+  IScopeOptions,
+  IBindOptions,
+  IStageOptions,
+  IVariableAliases,
+  IAliasOptions,
+  Stage,
+  StageDefaults,
+  StageDefaultValues,
+  Secret,
+  IEncryptionOptions,
+  EncryptionKey,
+  IEncryptFileOptions,
+  IDecryptFileOptions,
+  ICustomTypeConverter,
+  ICidrRange,
+  IArrayParseOptions,
+  ISchemaConstraints,
+  ISchemaEntry,
+  Schema,
+  SchemaEntryValue,
+  SchemaValues,
+  IJsonSchema,
+  Rules,
+  IRule,
+  RuleCondition,
+  IEnvironmentProvider,
+  IProvidedValue,
+  ProcessEnvProvider,
+  MemoryProvider,
+  EnvFileProvider,
+  ConfigFileProvider,
+  IConfigFileProviderOptions,
+  ConfigFileFormat,
+  DirectoryProvider,
+  IAsyncEnvironmentProvider,
+  IProviderStatus,
+  RemoteProvider,
+  IRemoteProviderOptions,
+  IRemoteSnapshot,
+  IRemoteSource,
+  HttpSource,
+  IHttpSourceOptions,
+  ContainerEngine,
+  IRuntimeDetectionOptions,
+  IRuntimeInfo,
+  CIProviderName,
+  CloudPlatformName,
+  ICIProvider,
+  ICloudPlatform,
+  IPlatformDetectionOptions,
+  IEnvironmentValidationIssue,
+  ConfigFileParseError,
+  DotEnvParseError,
+  DecryptionError,
+  RemoteSourceError,
+  EnvironmentVariableCycleError,
+  EnvironmentVariableConflictError,
+  EnvironmentVariableInterpolationError,
+  EnvironmentValidationError,
+  EnvironmentVariableParseError,
+  EnvironmentVariableSecretError,
+  TypeConversionError,
+};
 export default environment;